@@ -0,0 +1,66 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AssetProps } from 'contentful-management/dist/typings/entities/asset';
+import { ContentTypeProps } from 'contentful-management/dist/typings/entities/content-type';
+import { AuditApi } from '../utils/layoutAudit';
+
+// The parts of a file written by contentful-export that the validation reads
+export interface ContentfulExport {
+  contentTypes?: ContentTypeProps[];
+  entries?: EntryProps[];
+  assets?: AssetProps[];
+  locales?: { code: string; default?: boolean }[];
+}
+
+type Query = { [key: string]: unknown };
+
+// Answers the sys.id[in] queries of the link resolvers and the content_type pages of the audit from the export
+const queryItems = <T extends { sys: { id: string; contentType?: { sys: { id: string } } } }>(
+  items: T[],
+  query: Query
+): { items: T[]; total: number } => {
+  if (query['sys.id[in]'] !== undefined) {
+    const ids = new Set(String(query['sys.id[in]']).split(','));
+    const matching = items.filter((item) => ids.has(item.sys.id));
+    return { items: matching, total: matching.length };
+  }
+
+  const matching =
+    query.content_type === undefined ? items : items.filter((item) => item.sys.contentType?.sys.id === query.content_type);
+  const skip = Number(query.skip ?? 0);
+  const limit = query.limit === undefined ? matching.length : Number(query.limit);
+  return { items: matching.slice(skip, skip + limit), total: matching.length };
+};
+
+// Serves the audit from an export file instead of the CMA, so an environment can be validated offline.
+// Links to entries or assets missing from the export resolve to bare links, like deleted ones do.
+export const createExportApi = (data: ContentfulExport): AuditApi => {
+  const entries = data.entries ?? [];
+  const assets = data.assets ?? [];
+  const contentTypes = data.contentTypes ?? [];
+
+  return {
+    getEntries: async (query) => queryItems(entries, query),
+    getAssets: async (query) => queryItems(assets, query),
+    getContentType: async (contentTypeId) => {
+      const contentType = contentTypes.find((candidate) => candidate.sys.id === contentTypeId);
+      if (!contentType) {
+        throw new Error(`Content type '${contentTypeId}' is not in the export. Export the content model too.`);
+      }
+      return { name: contentType.name, fields: contentType.fields };
+    },
+  };
+};
+
+// The locales of the export, the default one being validated. `locale` stands in for the default locale,
+// e.g. for an export without its locales.
+export const getExportLocales = (
+  data: ContentfulExport,
+  locale?: string
+): { default: string; available: string[] } | undefined => {
+  const available = (data.locales ?? []).map(({ code }) => code);
+  const defaultLocale = locale ?? data.locales?.find((candidate) => candidate.default)?.code;
+  if (!defaultLocale) {
+    return undefined;
+  }
+  return { default: defaultLocale, available: available.includes(defaultLocale) ? available : [defaultLocale, ...available] };
+};
@@ -0,0 +1,12 @@
+import { readFile, writeFile } from 'fs/promises';
+import { runValidateExport } from './validateExport';
+
+// Entry point of the validate-export command, see validateExport.ts
+runValidateExport(process.argv.slice(2), {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+}).then((exitCode) => {
+  process.exitCode = exitCode;
+});
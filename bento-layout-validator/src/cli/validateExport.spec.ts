@@ -0,0 +1,144 @@
+import { vi } from 'vitest';
+import { CliIo, EXIT_FAILED, EXIT_PASSED, EXIT_USAGE, parseArgs, runValidateExport } from './validateExport';
+import { ValidationConfig } from '../types';
+import { cards, createMockEntry } from '../../test/mocks';
+
+const heroLayout: ValidationConfig = {
+  layoutType: 'bento-hero',
+  targetContentType: 'CardsContainer',
+  validateField: ['cards'],
+  positions: {
+    hero: { index: 0, allowedTypes: ['CardTypeA'] },
+    side: { index: 1, allowedTypes: ['CardTypeB'] },
+  },
+  limits: { totalEntries: 2 },
+};
+
+const createExport = (containers: ReturnType<typeof createMockEntry>[]) => ({
+  locales: [{ code: 'en-US', default: true }],
+  contentTypes: [
+    {
+      sys: { id: 'CardsContainer' },
+      name: 'Cards container',
+      fields: [{ id: 'cards', name: 'Cards', type: 'Array', items: { type: 'Link', linkType: 'Entry' } }],
+    },
+  ],
+  entries: [createMockEntry('a1', 'CardTypeA'), createMockEntry('b1', 'CardTypeB'), ...containers],
+});
+
+// Files served from memory, output collected per stream
+const createIo = (files: { [path: string]: unknown }) => {
+  const output = { stdout: '', stderr: '', written: {} as { [path: string]: string } };
+  const io: CliIo = {
+    readFile: vi.fn(async (path: string) => {
+      if (!(path in files)) {
+        throw new Error('ENOENT: no such file or directory');
+      }
+      return JSON.stringify(files[path]);
+    }),
+    writeFile: vi.fn(async (path: string, content: string) => void (output.written[path] = content)),
+    stdout: (text) => void (output.stdout += `${text}\n`),
+    stderr: (text) => void (output.stderr += `${text}\n`),
+  };
+  return { io, output };
+};
+
+const args = ['--export', 'export.json', '--config', 'layouts.json'];
+
+describe('parseArgs', () => {
+  it('should read the options, inline values included', () => {
+    expect(parseArgs(['--export=export.json', '--config', 'layouts.json', '--format', 'junit'])).toEqual({
+      exportPath: 'export.json',
+      configPath: 'layouts.json',
+      format: 'junit',
+    });
+    expect(parseArgs(['--help'])).toBeNull();
+  });
+
+  it('should reject unknown and missing options', () => {
+    expect(() => parseArgs([...args, '--fix'])).toThrow("Unknown option '--fix'.");
+    expect(() => parseArgs(['--export', 'export.json'])).toThrow('Both --export and --config are required.');
+    expect(() => parseArgs([...args, '--format', 'xml'])).toThrow("Unknown format 'xml'");
+  });
+});
+
+describe('runValidateExport', () => {
+  const swapped = createMockEntry('swapped', 'CardsContainer', { title: { 'en-US': 'Swapped' }, cards: cards('b1', 'a1') });
+  const good = createMockEntry('good', 'CardsContainer', { title: { 'en-US': 'Good' }, cards: cards('a1', 'b1') });
+
+  it('should print a summary and fail on errors', async () => {
+    const { io, output } = createIo({ 'export.json': createExport([good, swapped]), 'layouts.json': [heroLayout] });
+
+    expect(await runValidateExport(args, io)).toBe(EXIT_FAILED);
+    expect(output.stdout).toContain('✖ Swapped (swapped) cards [bento-hero]');
+    expect(output.stdout).toContain('error TYPE_NOT_ALLOWED');
+    expect(output.stdout).toContain('1 of 2 entries do not pass their layouts (2 errors, 0 warnings).');
+  });
+
+  it('should pass when every layout passes', async () => {
+    const { io, output } = createIo({
+      'export.json': createExport([good]),
+      'layouts.json': { validationConfigs: [heroLayout] },
+    });
+
+    expect(await runValidateExport(args, io)).toBe(EXIT_PASSED);
+    expect(output.stdout).toBe('All 1 entries pass their layouts (0 errors, 0 warnings).\n');
+  });
+
+  it('should write a JUnit report with a testcase per entry and layout field', async () => {
+    const { io, output } = createIo({ 'export.json': createExport([good, swapped]), 'layouts.json': heroLayout });
+
+    await runValidateExport([...args, '--format', 'junit', '--output', 'report.xml'], io);
+
+    const xml = output.written['report.xml'];
+    expect(xml).toContain('<testsuites name="bento-layout-validator" tests="2" failures="1">');
+    expect(xml).toContain('<testcase name="Good (good) cards" classname="CardsContainer.bento-hero"/>');
+    expect(xml).toContain('<failure message="2 errors">TYPE_NOT_ALLOWED:');
+    expect(output.stdout).toContain('1 of 2 entries do not pass');
+  });
+
+  it('should point the SARIF results at the export file', async () => {
+    const { io, output } = createIo({ 'export.json': createExport([swapped]), 'layouts.json': [heroLayout] });
+
+    await runValidateExport([...args, '--format', 'sarif'], io);
+
+    const [result] = JSON.parse(output.stdout).runs[0].results;
+    expect(result.ruleId).toBe('TYPE_NOT_ALLOWED');
+    expect(result.locations[0].physicalLocation.artifactLocation.uri).toBe('export.json');
+  });
+
+  it('should print a JSON report to stdout and the summary to stderr', async () => {
+    const { io, output } = createIo({ 'export.json': createExport([swapped]), 'layouts.json': [heroLayout] });
+
+    await runValidateExport([...args, '--format', 'json'], io);
+
+    expect(JSON.parse(output.stdout)).toEqual([
+      expect.objectContaining({ entryId: 'swapped', layoutType: 'bento-hero', errorCodes: ['TYPE_NOT_ALLOWED'] }),
+    ]);
+    expect(output.stderr).toContain('1 of 1 entries do not pass');
+  });
+
+  it('should audit the other layouts when a content type is not in the export', async () => {
+    const { io, output } = createIo({
+      'export.json': createExport([good]),
+      'layouts.json': [{ ...heroLayout, targetContentType: 'Missing' }, heroLayout],
+    });
+
+    expect(await runValidateExport(args, io)).toBe(EXIT_USAGE);
+    expect(output.stdout).toBe('All 1 entries pass their layouts (0 errors, 0 warnings).\n');
+    expect(output.stderr).toContain(
+      "/0/targetContentType: The entries of 'Missing' were not audited: Content type 'Missing' is not in the export."
+    );
+  });
+
+  it('should report input it cannot work with', async () => {
+    const invalidLayout = { ...heroLayout, positions: undefined };
+    const missing = createIo({ 'layouts.json': [heroLayout] });
+    const invalid = createIo({ 'export.json': createExport([]), 'layouts.json': [invalidLayout] });
+
+    expect(await runValidateExport(args, missing.io)).toBe(EXIT_USAGE);
+    expect(missing.output.stderr).toContain("Cannot read 'export.json'");
+    expect(await runValidateExport(args, invalid.io)).toBe(EXIT_USAGE);
+    expect(invalid.output.stderr).toContain('The layouts are not valid:');
+  });
+});
@@ -0,0 +1,200 @@
+import { AppInstallationParameters, ValidationConfig } from '../types';
+import { formatConfigIssue, lintValidationConfigs } from '../validators/configValidator';
+import { countProblems, formatProblemCounts, getFieldStatus } from '../utils/fieldValidation';
+import { AuditFinding, auditLayouts, toReportSubjects, toResultSubjects } from '../utils/layoutAudit';
+import { toJsonReport, toReportRecords } from '../utils/reportExport';
+import { toJUnitXml, toSarif } from '../validators/resultFormatters';
+import { ContentfulExport, createExportApi, getExportLocales } from './exportApi';
+
+// Exit codes: every layout passes (warnings allowed), a layout fails, the command could not run or audit every layout
+export const EXIT_PASSED = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+const FORMATS = ['text', 'json', 'junit', 'sarif'] as const;
+type OutputFormat = typeof FORMATS[number];
+
+export const USAGE = `Usage: validate-export --export <file> --config <file> [options]
+
+Validates the layouts of every entry of a contentful-export file, offline.
+
+Options:
+  --export <file>    JSON file written by contentful-export
+  --config <file>    Layouts as a JSON array, a single layout, or installation parameters with validationConfigs
+  --locale <code>    Locale to validate, the default locale of the export when omitted
+  --format <format>  text (default), json, junit or sarif
+  --output <file>    Where to write the json, junit or sarif report, stdout when omitted
+  --help             Show this help`;
+
+export interface CliOptions {
+  exportPath: string;
+  configPath: string;
+  locale?: string;
+  format: OutputFormat;
+  outputPath?: string;
+}
+
+// What the command needs from Node, injected so it can run in tests
+export interface CliIo {
+  readFile: (path: string) => Promise<string>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+// Thrown for input the command cannot work with, reported without a stack trace
+class CliError extends Error {}
+
+const usageError = (message: string) => new CliError(`${message} Run validate-export --help for the options.`);
+
+const FLAGS: { [flag: string]: keyof CliOptions } = {
+  '--export': 'exportPath',
+  '--config': 'configPath',
+  '--locale': 'locale',
+  '--format': 'format',
+  '--output': 'outputPath',
+};
+
+// Parses the command line, e.g. ["--export", "export.json", "--config", "layouts.json"]. Null asks for the help.
+export const parseArgs = (argv: string[]): CliOptions | null => {
+  const values: Partial<Record<keyof CliOptions, string>> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s);
+    if (flag === '--help' || flag === '-h') {
+      return null;
+    }
+    const key = FLAGS[flag];
+    if (!key) {
+      throw usageError(`Unknown option '${argv[i]}'.`);
+    }
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value === '') {
+      throw usageError(`Option '${flag}' needs a value.`);
+    }
+    values[key] = value;
+  }
+
+  if (!values.exportPath || !values.configPath) {
+    throw usageError('Both --export and --config are required.');
+  }
+  const format = (values.format ?? 'text') as OutputFormat;
+  if (!FORMATS.includes(format)) {
+    throw usageError(`Unknown format '${values.format}', use ${FORMATS.join(', ')}.`);
+  }
+  if (values.outputPath && format === 'text') {
+    throw usageError('--output needs --format json, junit or sarif.');
+  }
+
+  return { ...values, format } as CliOptions;
+};
+
+const readJson = async (io: CliIo, path: string): Promise<unknown> => {
+  let text: string;
+  try {
+    text = await io.readFile(path);
+  } catch (error) {
+    throw new CliError(`Cannot read '${path}': ${(error as Error).message}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CliError(`'${path}' is not valid JSON: ${(error as Error).message}`);
+  }
+};
+
+// The layouts of a config file: the array authored in the ConfigScreen, a single layout, or installation parameters
+export const toInstallationParameters = (config: unknown): AppInstallationParameters => {
+  const configs = Array.isArray(config)
+    ? config
+    : config && typeof config === 'object' && 'validationConfigs' in config
+    ? (config as AppInstallationParameters).validationConfigs
+    : [config];
+  const issues = lintValidationConfigs(configs);
+  if (issues.length > 0) {
+    throw new CliError(`The layouts are not valid:\n${issues.map((issue) => `  ${formatConfigIssue(issue)}`).join('\n')}`);
+  }
+  return { validationConfigs: configs as ValidationConfig[] };
+};
+
+const getTestName = (finding: AuditFinding): string => `${finding.title} (${finding.entry.sys.id}) ${finding.fieldId}`;
+
+// E.g. "✖ Home (entry1) cards [bento-hero]" followed by one line per problem
+const formatFinding = (finding: AuditFinding): string =>
+  [
+    `${getFieldStatus(finding.report) === 'failed' ? '✖' : '⚠'} ${getTestName(finding)} [${
+      finding.report.config?.layoutType ?? 'no layout'
+    }]`,
+    ...finding.report.errors.map((error) => `    ${error.severity} ${error.code}: ${error.message}`),
+  ].join('\n');
+
+// The human summary: the entries with problems, then the totals
+export const formatSummary = (findings: AuditFinding[], scanned: number): string => {
+  const withProblems = findings.filter((finding) => getFieldStatus(finding.report) !== 'passed');
+  const failingEntries = new Set(
+    withProblems.filter((finding) => getFieldStatus(finding.report) === 'failed').map((finding) => finding.entry.sys.id)
+  );
+  const counts = countProblems(withProblems.flatMap((finding) => finding.report.errors));
+  return [
+    ...withProblems.map(formatFinding),
+    failingEntries.size > 0
+      ? `${failingEntries.size} of ${scanned} entries do not pass their layouts (${formatProblemCounts(counts)}).`
+      : `All ${scanned} entries pass their layouts (${formatProblemCounts(counts)}).`,
+  ].join('\n');
+};
+
+// Runs the command and returns its exit code
+export const runValidateExport = async (argv: string[], io: CliIo): Promise<number> => {
+  try {
+    const options = parseArgs(argv);
+    if (!options) {
+      io.stdout(USAGE);
+      return EXIT_PASSED;
+    }
+
+    const data = (await readJson(io, options.exportPath)) as ContentfulExport;
+    const installation = toInstallationParameters(await readJson(io, options.configPath));
+    const locales = getExportLocales(data, options.locale);
+    if (!locales) {
+      throw new CliError('The export has no default locale, pass one with --locale.');
+    }
+
+    const { findings, scanned, configIssues } = await auditLayouts(createExportApi(data), {
+      installation,
+      locales,
+      includePassing: true,
+    });
+
+    const report =
+      options.format === 'json'
+        ? toJsonReport(toReportRecords(toReportSubjects(findings)))
+        : options.format === 'junit'
+        ? toJUnitXml(toResultSubjects(findings))
+        : options.format === 'sarif'
+        ? toSarif(toResultSubjects(findings), { artifactUri: options.exportPath })
+        : undefined;
+    const summary = formatSummary(findings, scanned);
+    if (report !== undefined && !options.outputPath) {
+      // The report takes stdout, so it can be piped
+      io.stdout(report);
+      io.stderr(summary);
+    } else {
+      if (report !== undefined && options.outputPath) {
+        await io.writeFile(options.outputPath, report);
+      }
+      io.stdout(summary);
+    }
+    if (configIssues.length > 0) {
+      io.stderr(`Some layouts were not audited:\n${configIssues.map((issue) => `  ${formatConfigIssue(issue)}`).join('\n')}`);
+      return EXIT_USAGE;
+    }
+
+    return findings.some((finding) => getFieldStatus(finding.report) === 'failed') ? EXIT_FAILED : EXIT_PASSED;
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.stderr(error.message);
+    } else {
+      io.stderr(`Validation failed: ${(error as Error).message}`);
+    }
+    return EXIT_USAGE;
+  }
+};
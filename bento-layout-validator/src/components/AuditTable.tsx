@@ -0,0 +1,49 @@
+import { EntityStatusBadge, Table, TextLink } from '@contentful/f36-components';
+import { AuditFinding } from '../utils/layoutAudit';
+import { countProblems, formatProblemCounts } from '../utils/fieldValidation';
+
+interface AuditTableProps {
+  findings: AuditFinding[];
+  onOpenEntry: (entryId: string) => void;
+}
+
+// The distinct error codes of a finding, in the order they were first reported
+const getErrorCodes = ({ report }: AuditFinding): string[] => Array.from(new Set(report.errors.map((error) => error.code)));
+
+// Lists the layout fields of the audit that do not pass, one row per entry and field
+const AuditTable = ({ findings, onOpenEntry }: AuditTableProps) => (
+  <Table aria-label="Non-compliant entries">
+    <Table.Head>
+      <Table.Row>
+        <Table.Cell>Entry</Table.Cell>
+        <Table.Cell>Content type</Table.Cell>
+        <Table.Cell>Field</Table.Cell>
+        <Table.Cell>Layout</Table.Cell>
+        <Table.Cell>Status</Table.Cell>
+        <Table.Cell>Problems</Table.Cell>
+      </Table.Row>
+    </Table.Head>
+    <Table.Body>
+      {findings.map((finding) => (
+        <Table.Row key={`${finding.entry.sys.id}-${finding.fieldId}`}>
+          <Table.Cell>
+            <TextLink as="button" onClick={() => onOpenEntry(finding.entry.sys.id)}>
+              {finding.title}
+            </TextLink>
+          </Table.Cell>
+          <Table.Cell>{finding.contentTypeId}</Table.Cell>
+          <Table.Cell>{finding.fieldName}</Table.Cell>
+          <Table.Cell>{finding.report.config?.layoutType ?? '–'}</Table.Cell>
+          <Table.Cell>
+            <EntityStatusBadge entityStatus={finding.status} />
+          </Table.Cell>
+          <Table.Cell>
+            {formatProblemCounts(countProblems(finding.report.errors))}: {getErrorCodes(finding).join(', ')}
+          </Table.Cell>
+        </Table.Row>
+      ))}
+    </Table.Body>
+  </Table>
+);
+
+export default AuditTable;
@@ -0,0 +1,93 @@
+import { Box, Caption, Text, Tooltip } from '@contentful/f36-components';
+import tokens from '@contentful/f36-tokens';
+import { css } from 'emotion';
+import { GridSlot, GridSlotStatus } from '../utils/gridPreview';
+
+// Without a grid on the layout, up to this many tiles per row, wider layouts wrap
+const MAX_COLUMNS = 3;
+
+const statusColors: { [status in GridSlotStatus]: { background: string; border: string } } = {
+  valid: { background: tokens.green100, border: tokens.green500 },
+  warning: { background: tokens.yellow100, border: tokens.orange500 },
+  invalid: { background: tokens.red100, border: tokens.red500 },
+};
+
+const styles = {
+  grid: (columns: number) =>
+    css({
+      display: 'grid',
+      gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+      gap: tokens.spacingXs,
+      marginTop: tokens.spacingS,
+    }),
+  // Tiles without an area, e.g. cards no position applies to, flow into the free cells
+  area: ({ area }: GridSlot) =>
+    area
+      ? css({
+          gridRow: `${area.row} / span ${area.rowSpan}`,
+          gridColumn: `${area.column} / span ${area.colSpan}`,
+        })
+      : undefined,
+  tile: (status: GridSlotStatus, isEmpty: boolean) =>
+    css({
+      height: '100%',
+      padding: tokens.spacingXs,
+      borderRadius: tokens.borderRadiusMedium,
+      border: `1px ${isEmpty ? 'dashed' : 'solid'} ${statusColors[status].border}`,
+      backgroundColor: statusColors[status].background,
+      overflow: 'hidden',
+    }),
+};
+
+interface BentoGridPreviewProps {
+  slots: GridSlot[];
+  columns?: number; // Columns of the layout's grid, the tiles are placed on their areas
+}
+
+const slotLabel = (slot: GridSlot): string => slot.positionKey ?? `Card ${slot.index}`;
+
+// Renders the cards of a bento field as a mini grid, coloured by whether each card passes its position's rules.
+// Hovering a tile with problems lists them.
+const BentoGridPreview = ({ slots, columns }: BentoGridPreviewProps) => {
+  if (slots.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.grid(columns ?? Math.min(slots.length, MAX_COLUMNS))} role="list" aria-label="Layout preview">
+      {slots.map((slot) => {
+        const tile = (
+          <Box
+            className={styles.tile(slot.status, !slot.entryId)}
+            role="listitem"
+            aria-label={`${slotLabel(slot)}: ${slot.status}`}
+          >
+            <Caption fontColor="gray600">{slotLabel(slot)}</Caption>
+            <Text as="div" fontWeight="fontWeightDemiBold" isTruncated>
+              {slot.title}
+            </Text>
+            {slot.contentTypeId && <Caption fontColor="gray600">{slot.contentTypeId}</Caption>}
+          </Box>
+        );
+
+        return slot.errors.length > 0 ? (
+          <Tooltip
+            key={`${slot.index}-${slot.entryId}`}
+            content={slot.errors.map((error) => error.message).join('\n')}
+            targetWrapperClassName={css({ display: 'block', height: '100%' }, styles.area(slot))}
+            className={css({ whiteSpace: 'pre-line' })}
+            placement="bottom"
+          >
+            {tile}
+          </Tooltip>
+        ) : (
+          <div key={`${slot.index}-${slot.entryId}`} className={styles.area(slot)}>
+            {tile}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BentoGridPreview;
@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button, Flex, List, ListItem, Note, Spinner, Table, Text } from '@contentful/f36-components';
+import { AuditFinding } from '../utils/layoutAudit';
+import {
+  ApplyProgress,
+  ApplyResult,
+  applyLinkChanges,
+  invertChange,
+  isApplied,
+  LinkFieldChange,
+  planReorders,
+  ReorderApi,
+} from '../utils/bulkReorder';
+import { downloadFile, getDatedFileName } from '../utils/download';
+import { getEntryTitle } from '../utils/gridPreview';
+
+interface BulkReorderProps {
+  findings: AuditFinding[];
+  api: ReorderApi;
+  undoLog: LinkFieldChange[]; // The changes applied and not undone, oldest first, the previous cards of each entry in `from`
+  onApplied: (change: LinkFieldChange, isUndo: boolean) => void;
+}
+
+type Stage =
+  | { name: 'idle' }
+  | { name: 'review'; isUndo: boolean }
+  | { name: 'applying'; isUndo: boolean; progress: ApplyProgress }
+  | { name: 'done'; isUndo: boolean; result: ApplyResult };
+
+const countEntries = (count: number): string => `${count} ${count === 1 ? 'entry' : 'entries'}`;
+
+const countReorders = (count: number): string => `${count} ${count === 1 ? 'reorder' : 'reorders'}`;
+
+// Card titles in order, the cards that move shown in bold
+const CardOrder = ({ cards, moved }: { cards: string[]; moved: boolean[] }) => (
+  <List as="ol">
+    {cards.map((card, index) => (
+      <ListItem key={index}>{moved[index] ? <Text fontWeight="fontWeightDemiBold">{card}</Text> : card}</ListItem>
+    ))}
+  </List>
+);
+
+interface ChangeTableProps {
+  label: string;
+  changes: LinkFieldChange[];
+  getCardTitle: (cardId: string) => string;
+}
+
+// The current and the new card order of each change. A card moves when another one takes its index.
+const ChangeTable = ({ label, changes, getCardTitle }: ChangeTableProps) => (
+  <Table aria-label={label}>
+    <Table.Head>
+      <Table.Row>
+        <Table.Cell>Entry</Table.Cell>
+        <Table.Cell>Field</Table.Cell>
+        <Table.Cell>Current order</Table.Cell>
+        <Table.Cell>New order</Table.Cell>
+      </Table.Row>
+    </Table.Head>
+    <Table.Body>
+      {changes.map((change, index) => {
+        const moved = change.from.map((card, cardIndex) => card.sys.id !== change.to[cardIndex]?.sys.id);
+        return (
+          <Table.Row key={`${change.entryId}-${change.fieldId}-${index}`}>
+            <Table.Cell>{change.title}</Table.Cell>
+            <Table.Cell>{change.fieldId}</Table.Cell>
+            <Table.Cell>
+              <CardOrder cards={change.from.map((card) => getCardTitle(card.sys.id))} moved={moved} />
+            </Table.Cell>
+            <Table.Cell>
+              <CardOrder cards={change.to.map((card) => getCardTitle(card.sys.id))} moved={moved} />
+            </Table.Cell>
+          </Table.Row>
+        );
+      })}
+    </Table.Body>
+  </Table>
+);
+
+// Fixes the card order of every listed entry that reordering alone can fix. The old and new orders are reviewed
+// before anything is saved, and the entries updated can be restored afterwards from the undo log, whatever is listed.
+const BulkReorder = ({ findings, api, undoLog, onApplied }: BulkReorderProps) => {
+  // A reorder already applied is left out until the audit runs again, the audit still holds the previous cards
+  const plans = useMemo(() => planReorders(findings).filter((plan) => !isApplied(undoLog, plan)), [findings, undoLog]);
+  // Undone newest first, each restoring the cards its reorder replaced
+  const undoChanges = useMemo(() => [...undoLog].reverse().map(invertChange), [undoLog]);
+  // Titles of the cards the audit resolved, the undo log only holds their links
+  const cardTitles = useMemo(
+    () =>
+      new Map(
+        findings.flatMap(({ report }) =>
+          report.entries.map((card) => [card.sys.id, getEntryTitle(card, report.context)] as [string, string])
+        )
+      ),
+    [findings]
+  );
+  const getCardTitle = (cardId: string) => cardTitles.get(cardId) ?? cardId;
+  const [stage, setStage] = useState<Stage>({ name: 'idle' });
+  const isMountedRef = useRef(true);
+
+  // Stop updating entries when leaving the page, those updated so far are already in the undo log
+  useEffect(
+    () => () => {
+      isMountedRef.current = false;
+    },
+    []
+  );
+
+  const apply = async (changes: LinkFieldChange[], isUndo: boolean) => {
+    setStage({ name: 'applying', isUndo, progress: { done: 0, total: changes.length } });
+    const result = await applyLinkChanges(api, changes, {
+      onProgress: (progress) => isMountedRef.current && setStage({ name: 'applying', isUndo, progress }),
+      onApplied: (change) => onApplied(change, isUndo),
+      isCancelled: () => !isMountedRef.current,
+    });
+    if (!isMountedRef.current) {
+      return;
+    }
+    setStage({ name: 'done', isUndo, result });
+  };
+
+  const downloadUndoLog = () =>
+    downloadFile(JSON.stringify(undoLog, null, 2), 'application/json', getDatedFileName('layout-reorder-undo', 'json'));
+
+  if (stage.name === 'applying') {
+    const { done, total, retryDelay } = stage.progress;
+    return (
+      <Flex alignItems="center" gap="spacingXs">
+        <Spinner size="small" />
+        <Text>
+          {retryDelay
+            ? `Rate limit reached, retrying in ${retryDelay / 1000} s…`
+            : `${stage.isUndo ? 'Restored' : 'Updated'} ${done} of ${countEntries(total)}…`}
+        </Text>
+      </Flex>
+    );
+  }
+
+  if (stage.name === 'review') {
+    const { isUndo } = stage;
+    const changes = isUndo ? undoChanges : plans;
+    return (
+      <Note variant="primary" title={isUndo ? 'Card orders to restore' : 'Proposed card orders'}>
+        <Flex flexDirection="column" gap="spacingS">
+          <Text>
+            {isUndo
+              ? 'The cards in bold move back to where they were before being reordered. Entries are saved, not published.'
+              : 'The cards in bold move. Entries are saved, not published, and only the default locale is reordered.'}
+          </Text>
+          <ChangeTable
+            label={isUndo ? 'Card orders to restore' : 'Proposed card orders'}
+            changes={changes}
+            getCardTitle={getCardTitle}
+          />
+          <Flex gap="spacingS">
+            <Button variant="primary" size="small" onClick={() => apply(changes, isUndo)}>
+              {`${isUndo ? 'Undo' : 'Apply'} ${countReorders(changes.length)}`}
+            </Button>
+            <Button variant="transparent" size="small" onClick={() => setStage({ name: 'idle' })}>
+              Cancel
+            </Button>
+          </Flex>
+        </Flex>
+      </Note>
+    );
+  }
+
+  return (
+    <Flex flexDirection="column" gap="spacingS">
+      {stage.name === 'done' && (
+        <Note variant={stage.result.failures.length > 0 ? 'warning' : 'positive'}>
+          <Flex flexDirection="column" gap="spacingXs">
+            <Text>
+              {stage.isUndo
+                ? `Restored the previous card order of ${countEntries(stage.result.applied.length)}.`
+                : `Reordered the cards of ${countEntries(stage.result.applied.length)}. Run the audit again to see which entries still do not pass.`}
+            </Text>
+            {stage.result.failures.length > 0 && (
+              <List aria-label="Failed updates">
+                {stage.result.failures.map(({ change, message }) => (
+                  <ListItem key={`${change.entryId}-${change.fieldId}`}>
+                    <Text fontWeight="fontWeightDemiBold">{change.title}</Text>: {message}
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Flex>
+        </Note>
+      )}
+      <Flex alignItems="center" gap="spacingS">
+        {findings.length > 0 && (
+          <Button isDisabled={plans.length === 0} onClick={() => setStage({ name: 'review', isUndo: false })}>
+            Fix card order…
+          </Button>
+        )}
+        {undoLog.length > 0 && (
+          <>
+            <Button variant="secondary" onClick={() => setStage({ name: 'review', isUndo: true })}>
+              Undo reorder…
+            </Button>
+            <Button variant="transparent" onClick={downloadUndoLog}>
+              Download undo log
+            </Button>
+          </>
+        )}
+        {findings.length > 0 && (
+          <Text fontColor="gray600">
+            {plans.length > 0
+              ? `${plans.length} of the listed entries can be fixed by reordering their cards.`
+              : 'None of the listed entries can be fixed by reordering their cards.'}
+          </Text>
+        )}
+      </Flex>
+    </Flex>
+  );
+};
+
+export default BulkReorder;
@@ -0,0 +1,75 @@
+import { Box, Caption, Flex, List, ListItem, Paragraph, Subheading, Text, TextLink } from '@contentful/f36-components';
+import tokens from '@contentful/f36-tokens';
+import { css } from 'emotion';
+import { ValidationError } from '../types';
+import { FieldValidationReport, getFieldStatus } from '../utils/fieldValidation';
+import { getGridSlots } from '../utils/gridPreview';
+import BentoGridPreview from './BentoGridPreview';
+import FieldStatusBadge from './FieldStatusBadge';
+
+const styles = {
+  section: css({
+    padding: tokens.spacingM,
+    border: `1px solid ${tokens.gray300}`,
+    borderRadius: tokens.borderRadiusMedium,
+  }),
+};
+
+// The card a problem concerns, unless it is missing or inaccessible
+const canOpenCard = (error: ValidationError): boolean => Boolean(error.entryId) && error.code !== 'ENTRY_NOT_FOUND';
+
+interface FieldLayoutReportProps {
+  fieldId: string;
+  name: string;
+  report: FieldValidationReport;
+  onOpenEntry: (entryId: string) => void;
+}
+
+// The validation report of a single reference field: its status, the layout it was validated against, a preview of
+// the cards and every problem, with a link to open the card it concerns.
+const FieldLayoutReport = ({ fieldId, name, report, onOpenEntry }: FieldLayoutReportProps) => {
+  const { config, errors, suggestion } = report;
+  // The preview shows the cards of the locale validated first, other locales only add to the list of problems
+  const previewErrors = errors.filter((error) => !error.locale || error.locale === report.context.locale);
+
+  return (
+    <section className={styles.section} aria-label={name}>
+      <Flex alignItems="center" gap="spacingS">
+        <Subheading marginBottom="none">{name}</Subheading>
+        <FieldStatusBadge status={getFieldStatus(report)} />
+        {config && <Caption fontColor="gray600">{config.layoutType}</Caption>}
+      </Flex>
+      <Caption fontColor="gray600">{fieldId}</Caption>
+      {suggestion && <Paragraph marginTop="spacingXs">{suggestion}</Paragraph>}
+      {config && (
+        <BentoGridPreview
+          slots={getGridSlots(config, report.entries, previewErrors, report.context)}
+          columns={config.grid?.columns}
+        />
+      )}
+      {errors.length > 0 && (
+        <Box marginTop="spacingS">
+          <List aria-label={`Problems in ${name}`}>
+            {errors.map((error, index) => (
+              <ListItem key={index}>
+                <Text fontColor={error.severity === 'error' ? 'red600' : 'orange600'}>
+                  {error.locale ? `[${error.locale}] ${error.message}` : error.message}
+                </Text>
+                {canOpenCard(error) && (
+                  <>
+                    {' '}
+                    <TextLink as="button" onClick={() => onOpenEntry(error.entryId as string)}>
+                      Open card
+                    </TextLink>
+                  </>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+    </section>
+  );
+};
+
+export default FieldLayoutReport;
@@ -0,0 +1,15 @@
+import { Badge } from '@contentful/f36-components';
+import { FieldStatus } from '../utils/fieldValidation';
+
+const badges: { [status in FieldStatus]: { variant: 'positive' | 'warning' | 'negative'; label: string } } = {
+  passed: { variant: 'positive', label: 'Passed' },
+  warnings: { variant: 'warning', label: 'Warnings' },
+  failed: { variant: 'negative', label: 'Failed' },
+};
+
+// Whether a field passes its layout, as a coloured badge
+const FieldStatusBadge = ({ status }: { status: FieldStatus }) => (
+  <Badge variant={badges[status].variant}>{badges[status].label}</Badge>
+);
+
+export default FieldStatusBadge;
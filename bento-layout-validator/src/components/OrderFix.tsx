@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Button, Flex, List, ListItem, Note, Text } from '@contentful/f36-components';
+import { GridSlot } from '../utils/gridPreview';
+
+interface OrderFixProps {
+  slots: GridSlot[]; // The cards in the proposed order, with the positions they would take
+  onApply: () => void;
+}
+
+// Offers to reorder the cards so they satisfy the layout. The proposed order is shown for review before applying it.
+const OrderFix = ({ slots, onApply }: OrderFixProps) => {
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  if (!isReviewing) {
+    return (
+      <Button variant="secondary" size="small" style={{ marginTop: '10px' }} onClick={() => setIsReviewing(true)}>
+        Fix card order
+      </Button>
+    );
+  }
+
+  return (
+    <Note variant="primary" title="Proposed order" style={{ marginTop: '10px' }}>
+      <List as="ol" aria-label="Proposed order">
+        {slots.map((slot) => (
+          <ListItem key={`${slot.index}-${slot.entryId}`}>
+            <Text fontWeight="fontWeightDemiBold">{slot.title}</Text>
+            {slot.contentTypeId && ` (${slot.contentTypeId})`}
+            {slot.positionKey && ` as ${slot.positionKey}`}
+          </ListItem>
+        ))}
+      </List>
+      <Flex gap="spacingS" marginTop="spacingS">
+        <Button
+          variant="primary"
+          size="small"
+          onClick={() => {
+            setIsReviewing(false);
+            onApply();
+          }}
+        >
+          Apply order
+        </Button>
+        <Button variant="transparent" size="small" onClick={() => setIsReviewing(false)}>
+          Cancel
+        </Button>
+      </Flex>
+    </Note>
+  );
+};
+
+export default OrderFix;
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { Button, EntryCard, Flex, List, ListItem, Menu, MenuItem, Text } from '@contentful/f36-components';
+import tokens from '@contentful/f36-tokens';
+import { css } from 'emotion';
+import { EntryLink } from '../types';
+import { GridSlot } from '../utils/gridPreview';
+
+const styles = {
+  card: (isDropTarget: boolean) =>
+    css({
+      borderTop: `2px solid ${isDropTarget ? tokens.blue500 : 'transparent'}`,
+    }),
+  endZone: (isDropTarget: boolean) =>
+    css({
+      padding: tokens.spacingXs,
+      border: `1px dashed ${isDropTarget ? tokens.blue500 : tokens.gray400}`,
+      borderRadius: tokens.borderRadiusMedium,
+      textAlign: 'center',
+    }),
+};
+
+interface ReferenceEditorProps {
+  links: EntryLink[];
+  slots: GridSlot[]; // What validation found out about each card, e.g. its title and errors
+  createTypes: string[]; // Content types "Create new" offers, those of the next empty position
+  isDisabled: boolean;
+  onChange: (links: EntryLink[]) => void;
+  onAddExisting: () => void;
+  onCreate: (contentTypeId: string) => void;
+  onOpen: (entryId: string) => void;
+}
+
+// Moves the card at `from` so it ends up at `to`
+const moveLink = (links: EntryLink[], from: number, to: number): EntryLink[] => {
+  const next = [...links];
+  const [link] = next.splice(from, 1);
+  next.splice(to, 0, link);
+  return next;
+};
+
+// The slot of the card at an index. Right after a reorder the slots still follow the previous order until
+// validation catches up, so the card is also looked up by id.
+const findSlot = (slots: GridSlot[], link: EntryLink, index: number): GridSlot | undefined =>
+  slots.find((slot) => slot.index === index && slot.entryId === link.sys.id) ??
+  slots.find((slot) => slot.entryId === link.sys.id);
+
+// Edits the cards of a multi reference field: add existing entries, create new ones, reorder by drag and drop
+// or the card menu, and remove. Each card shows the validation errors reported for it.
+const ReferenceEditor = ({
+  links,
+  slots,
+  createTypes,
+  isDisabled,
+  onChange,
+  onAddExisting,
+  onCreate,
+  onOpen,
+}: ReferenceEditorProps) => {
+  // Index of the card being dragged and of the card it would be dropped in front of, the length of the list for
+  // the drop zone after the last card
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Dropped in front of the card at `index`, or after the last card, which moves up by one once a card above it is
+  // taken out
+  const drop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index && dragIndex !== index - 1) {
+      onChange(moveLink(links, dragIndex, dragIndex < index ? index - 1 : index));
+    }
+    endDrag();
+  };
+
+  return (
+    <Flex flexDirection="column" gap="spacingS" marginTop="spacingS">
+      {links.map((link, index) => {
+        const slot = findSlot(slots, link, index);
+        const entryId = link.sys.id;
+        const actions = [
+          <MenuItem key="open" onClick={() => onOpen(entryId)}>
+            Open
+          </MenuItem>,
+          ...(isDisabled
+            ? []
+            : [
+                <MenuItem key="up" isDisabled={index === 0} onClick={() => onChange(moveLink(links, index, index - 1))}>
+                  Move up
+                </MenuItem>,
+                <MenuItem
+                  key="down"
+                  isDisabled={index === links.length - 1}
+                  onClick={() => onChange(moveLink(links, index, index + 1))}
+                >
+                  Move down
+                </MenuItem>,
+                <MenuItem key="remove" onClick={() => onChange(links.filter((_, i) => i !== index))}>
+                  Remove
+                </MenuItem>,
+              ]),
+        ];
+
+        return (
+          <div
+            key={`${index}-${entryId}`}
+            className={styles.card(dropIndex === index && dragIndex !== index && dragIndex !== index - 1)}
+            draggable={!isDisabled}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={(event) => {
+              event.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={() => drop(index)}
+            onDragEnd={endDrag}
+          >
+            <EntryCard
+              title={slot?.title ?? entryId}
+              ariaLabel={slot?.title ?? entryId}
+              contentType={slot?.contentTypeId}
+              status={slot?.entryStatus}
+              description={slot?.positionKey ? `Position ${index} (${slot.positionKey})` : `Position ${index}`}
+              withDragHandle={!isDisabled}
+              isDragging={dragIndex === index}
+              actions={actions}
+            >
+              {slot && slot.errors.length > 0 && (
+                <List>
+                  {slot.errors.map((error, i) => (
+                    <ListItem key={i}>
+                      <Text fontColor={error.severity === 'error' ? 'red600' : 'orange600'}>{error.message}</Text>
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </EntryCard>
+          </div>
+        );
+      })}
+      {dragIndex !== null && (
+        <div
+          className={styles.endZone(dropIndex === links.length && dragIndex !== links.length - 1)}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setDropIndex(links.length);
+          }}
+          onDrop={() => drop(links.length)}
+        >
+          <Text fontColor="gray600">Drop here to move the card to the end</Text>
+        </div>
+      )}
+      {!isDisabled && (
+        <Flex gap="spacingS">
+          {createTypes.length > 1 ? (
+            <Menu>
+              <Menu.Trigger>
+                <Button variant="secondary" size="small">
+                  Create new
+                </Button>
+              </Menu.Trigger>
+              <Menu.List>
+                {createTypes.map((contentTypeId) => (
+                  <Menu.Item key={contentTypeId} onClick={() => onCreate(contentTypeId)}>
+                    {contentTypeId}
+                  </Menu.Item>
+                ))}
+              </Menu.List>
+            </Menu>
+          ) : (
+            <Button
+              variant="secondary"
+              size="small"
+              isDisabled={createTypes.length === 0}
+              onClick={() => onCreate(createTypes[0])}
+            >
+              {createTypes.length === 1 ? `Create new ${createTypes[0]}` : 'Create new'}
+            </Button>
+          )}
+          <Button variant="secondary" size="small" onClick={onAddExisting}>
+            Add existing
+          </Button>
+        </Flex>
+      )}
+    </Flex>
+  );
+};
+
+export default ReferenceEditor;
@@ -1,5 +1,5 @@
 import ConfigScreen from './ConfigScreen';
-import { render } from '@testing-library/react';
+import { render, fireEvent, waitFor } from '@testing-library/react';
 import { mockCma, mockSdk } from '../../test/mocks';
 import { vi } from 'vitest';
 
@@ -8,15 +8,68 @@ vi.mock('@contentful/react-apps-toolkit', () => ({
   useCMA: () => mockCma,
 }));
 
+const layout = {
+  layoutType: 'bento-1-2',
+  targetContentType: 'CardsContainer',
+  validateField: ['contentCards'],
+  positions: {
+    leftColumnFullHeightCard: { index: 0, allowedTypes: ['CardTypeA'] },
+  },
+  limits: { totalEntries: 1 },
+};
+
+// The most recently registered onConfigure callback reflects the latest component state
+const runOnConfigure = () => {
+  const calls = vi.mocked(mockSdk.app.onConfigure).mock.calls;
+  return calls[calls.length - 1][0]();
+};
+
 describe('Config Screen component', () => {
   it('Component text exists', async () => {
     const { getByText } = render(<ConfigScreen />);
 
     // simulate the user clicking the install button
-    await mockSdk.app.onConfigure.mock.calls[0][0]();
+    await vi.mocked(mockSdk.app.onConfigure).mock.calls[0][0]();
+
+    expect(getByText('Layout configurations (JSON)')).toBeInTheDocument();
+  });
+
+  it('loads existing layouts from the installation parameters', async () => {
+    vi.mocked(mockSdk.app.getParameters).mockResolvedValueOnce({ validationConfigs: [layout] });
+
+    const { getByText } = render(<ConfigScreen />);
+
+    await waitFor(() => {
+      expect(getByText(/bento-1-2: CardsContainer/)).toBeInTheDocument();
+    });
+  });
+
+  it('persists the authored layouts as installation parameters', async () => {
+    const { getByRole } = render(<ConfigScreen />);
+
+    fireEvent.change(getByRole('textbox'), { target: { value: JSON.stringify([layout]) } });
+
+    const result = await runOnConfigure();
+    expect(result && result.parameters).toEqual({ validationConfigs: [layout] });
+  });
+
+  it('refuses to save invalid JSON', async () => {
+    const { getByRole, getByText } = render(<ConfigScreen />);
+
+    fireEvent.change(getByRole('textbox'), { target: { value: '[{ "layoutType": ' } });
+
+    expect(getByText(/Invalid JSON/)).toBeInTheDocument();
+    expect(await runOnConfigure()).toBe(false);
+    expect(mockSdk.notifier.error).toHaveBeenCalled();
+  });
+
+  it('refuses to save layouts that fail the config linter', async () => {
+    const { getByRole, getByText } = render(<ConfigScreen />);
+    const brokenLayout = { ...layout, positions: { leftColumnFullHeightCard: { index: 1.5, allowedTypes: ['CardTypeA'] } } };
+
+    fireEvent.change(getByRole('textbox'), { target: { value: JSON.stringify([brokenLayout]) } });
 
-    expect(
-      getByText('Welcome to your contentful app. This is your config page.')
-    ).toBeInTheDocument();
+    expect(getByText('/0/positions/leftColumnFullHeightCard/index: must be integer.')).toBeInTheDocument();
+    expect(await runOnConfigure()).toBe(false);
   });
 });
@@ -1,13 +1,30 @@
 import { useCallback, useState, useEffect } from 'react';
 import { ConfigAppSDK } from '@contentful/app-sdk';
-import { Heading, Form, Paragraph, Flex } from '@contentful/f36-components';
+import {
+  Heading,
+  Form,
+  FormControl,
+  Paragraph,
+  Flex,
+  Textarea,
+  List,
+  ListItem,
+} from '@contentful/f36-components';
 import { css } from 'emotion';
 import { /* useCMA, */ useSDK } from '@contentful/react-apps-toolkit';
+import { AppInstallationParameters, ConfigIssue } from '../types';
+import { getValidationConfigs, parseValidationConfigs } from '../utils/validationConfigs';
+import { formatConfigIssue, lintValidationConfigs } from '../validators/configValidator';
 
-export interface AppInstallationParameters {}
+const stringifyConfigs = (parameters: AppInstallationParameters) =>
+  JSON.stringify(getValidationConfigs(parameters), null, 2);
 
 const ConfigScreen = () => {
   const [parameters, setParameters] = useState<AppInstallationParameters>({});
+  // The raw JSON as typed by the admin. Kept separately so invalid JSON is not lost while editing.
+  const [configText, setConfigText] = useState<string>('[]');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [configIssues, setConfigIssues] = useState<ConfigIssue[]>([]);
   const sdk = useSDK<ConfigAppSDK>();
   /*
      To use the cma, inject it as follows.
@@ -20,6 +37,12 @@ const ConfigScreen = () => {
     // or "Save" in the configuration screen.
     // for more details see https://www.contentful.com/developers/docs/extensibility/ui-extensions/sdk-reference/#register-an-app-configuration-hook
 
+    // Refuse to persist a configuration that cannot be parsed or does not pass the config linter
+    if (parseError || configIssues.length > 0) {
+      sdk.notifier.error('The layout configuration is not valid. Please fix it before saving.');
+      return false;
+    }
+
     // Get current the state of EditorInterface and other entities
     // related to this app installation
     const currentState = await sdk.app.getCurrentState();
@@ -31,7 +54,7 @@ const ConfigScreen = () => {
       // locations, you can just pass the currentState as is
       targetState: currentState,
     };
-  }, [parameters, sdk]);
+  }, [parameters, parseError, configIssues, sdk]);
 
   useEffect(() => {
     // `onConfigure` allows to configure a callback to be
@@ -48,6 +71,8 @@ const ConfigScreen = () => {
 
       if (currentParameters) {
         setParameters(currentParameters);
+        setConfigText(stringifyConfigs(currentParameters));
+        setConfigIssues(lintValidationConfigs(getValidationConfigs(currentParameters)));
       }
 
       // Once preparation has finished, call `setReady` to hide
@@ -56,11 +81,61 @@ const ConfigScreen = () => {
     })();
   }, [sdk]);
 
+  const onConfigTextChange = (text: string) => {
+    setConfigText(text);
+
+    const result = parseValidationConfigs(text);
+    if (result.error !== undefined) {
+      setParseError(result.error);
+      setConfigIssues([]);
+      return;
+    }
+
+    setParseError(null);
+    setConfigIssues(lintValidationConfigs(result.configs));
+    setParameters((current) => ({ ...current, validationConfigs: result.configs }));
+  };
+
+  const configs = getValidationConfigs(parameters);
+
   return (
     <Flex flexDirection="column" className={css({ margin: '80px', maxWidth: '800px' })}>
       <Form>
         <Heading>App Config</Heading>
-        <Paragraph>Welcome to your contentful app. This is your config page.</Paragraph>
+        <Paragraph>
+          Define the bento layouts to validate. Each layout applies to the reference fields listed in
+          its validateField for entries of its targetContentType.
+        </Paragraph>
+        <FormControl id="validationConfigs" isInvalid={!!parseError || configIssues.length > 0}>
+          <FormControl.Label>Layout configurations (JSON)</FormControl.Label>
+          <Textarea
+            value={configText}
+            rows={20}
+            onChange={(e) => onConfigTextChange(e.target.value)}
+            className={css({ fontFamily: 'monospace' })}
+          />
+          <FormControl.HelpText>
+            A JSON array of layouts, e.g. [{'{'} "layoutType": "bento-1-2", "targetContentType":
+            "CardsContainer", "validateField": ["contentCards"], "positions": {'{'}...{'}'}, "limits":{' '}
+            {'{'}...{'}'} {'}'}]
+          </FormControl.HelpText>
+          {parseError && <FormControl.ValidationMessage>{parseError}</FormControl.ValidationMessage>}
+          {configIssues.map((issue) => (
+            <FormControl.ValidationMessage key={`${issue.path}-${issue.message}`}>
+              {formatConfigIssue(issue)}
+            </FormControl.ValidationMessage>
+          ))}
+        </FormControl>
+        {configs.length > 0 && (
+          <List>
+            {configs.map((config, index) => (
+              <ListItem key={`${config.layoutType}-${index}`}>
+                {config.layoutType}: {config.targetContentType} &rarr;{' '}
+                {(config.validateField || []).join(', ')}
+              </ListItem>
+            ))}
+          </List>
+        )}
       </Form>
     </Flex>
   );
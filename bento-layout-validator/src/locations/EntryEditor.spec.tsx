@@ -1,17 +1,114 @@
 import EntryEditor from './EntryEditor';
-import { render } from '@testing-library/react';
-import { mockCma, mockSdk } from '../../test/mocks';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { createMockEntry, createMockSdk, link } from '../../test/mocks';
 import { vi } from 'vitest';
+import { EntryLink, ValidationConfig } from '../types';
 
 vi.mock('@contentful/react-apps-toolkit', () => ({
   useSDK: () => mockSdk,
-  useCMA: () => mockCma,
 }));
 
+let mockSdk: any;
+
+// A multiple entry reference field, both as declared on the content type and as an entry field holding links
+const referenceField = (id: string, name: string, links: EntryLink[]) => ({
+  contentTypeField: { id, name, type: 'Array', items: { type: 'Link', linkType: 'Entry' } },
+  entryField: { id, name, locales: ['en-US'], type: 'Array', items: { type: 'Link', linkType: 'Entry' }, getValue: vi.fn(() => links) },
+});
+
+const layout = (validateField: string, layoutType: string): ValidationConfig => ({
+  layoutType,
+  targetContentType: 'CardsContainer',
+  validateField: [validateField],
+  positions: {
+    hero: { index: 0, allowedTypes: ['CardTypeA'] },
+    side: { index: 1, allowedTypes: ['CardTypeB'] },
+  },
+  limits: { totalEntries: 2 },
+});
+
 describe('Entry component', () => {
-  it('Component text exists', () => {
-    const { getByText } = render(<EntryEditor />);
+  let promoCards: ReturnType<typeof referenceField>;
+
+  beforeEach(() => {
+    const heroCards = referenceField('heroCards', 'Hero cards', [link('entryA1'), link('entryB1')]);
+    promoCards = referenceField('promoCards', 'Promo cards', [link('entryB2'), link('entryA2')]);
+    mockSdk = createMockSdk();
+    mockSdk.contentType = {
+      sys: { id: 'CardsContainer' },
+      name: 'Cards container',
+      fields: [
+        { id: 'title', name: 'Title', type: 'Symbol' },
+        heroCards.contentTypeField,
+        promoCards.contentTypeField,
+      ],
+    };
+    mockSdk.entry.fields = { heroCards: heroCards.entryField, promoCards: promoCards.entryField };
+    mockSdk.parameters.installation = {
+      validationConfigs: [layout('heroCards', 'bento-hero'), layout('promoCards', 'bento-promo')],
+    };
+    const entries = [
+      createMockEntry('entryA1', 'CardTypeA', { title: { 'en-US': 'Spring sale' } }),
+      createMockEntry('entryB1', 'CardTypeB'),
+      createMockEntry('entryA2', 'CardTypeA'),
+      createMockEntry('entryB2', 'CardTypeB', { title: { 'en-US': 'Summer sale' } }),
+    ];
+    mockSdk._mockSpaceGetEntries.mockImplementation((query: { 'sys.id[in]': string }) => {
+      const ids = query['sys.id[in]'].split(',');
+      return Promise.resolve({ items: entries.filter((entry) => ids.includes(entry.sys.id)) });
+    });
+  });
+
+  it('should summarize the layout fields of the entry and detail each of them', async () => {
+    render(<EntryEditor />);
+
+    expect(await screen.findByText('1 of 2 layouts fail')).toBeInTheDocument();
+    expect(screen.getByText('2 fields checked: 2 errors, 0 warnings.')).toBeInTheDocument();
+
+    const hero = screen.getByRole('region', { name: 'Hero cards' });
+    expect(within(hero).getByText('Passed')).toBeInTheDocument();
+    expect(within(hero).getByText('bento-hero')).toBeInTheDocument();
+
+    const promo = screen.getByRole('region', { name: 'Promo cards' });
+    expect(within(promo).getByText('Failed')).toBeInTheDocument();
+    expect(within(promo).getByText("Invalid content type 'CardTypeB' at position 0 (hero). Allowed types: CardTypeA.")).toBeInTheDocument();
+    expect(screen.queryByRole('region', { name: 'Title' })).not.toBeInTheDocument();
+  });
+
+  it('should open the card a problem concerns', async () => {
+    render(<EntryEditor />);
+
+    const problems = await screen.findByRole('list', { name: 'Problems in Promo cards' });
+    fireEvent.click(within(problems).getAllByRole('button', { name: 'Open card' })[0]);
+
+    expect(mockSdk.navigator.openEntry).toHaveBeenCalledWith('entryB2', { slideIn: true });
+  });
+
+  it('should not offer to open a card that is missing', async () => {
+    promoCards.entryField.getValue.mockReturnValue([link('entryB2'), link('deleted')]);
+    render(<EntryEditor />);
+
+    const problems = await screen.findByRole('list', { name: 'Problems in Promo cards' });
+    const missing = within(problems).getByText(/Linked entry 'deleted' at position 1 \(side\) is missing/).closest('li')!;
+    expect(within(missing).queryByRole('button', { name: 'Open card' })).not.toBeInTheDocument();
+    expect(within(problems).getAllByRole('button', { name: 'Open card' })).toHaveLength(1);
+  });
+
+  it('should validate again on refresh, picking up edited cards', async () => {
+    render(<EntryEditor />);
+    await screen.findByText('1 of 2 layouts fail');
+
+    promoCards.entryField.getValue.mockReturnValue([link('entryA2'), link('entryB2')]);
+    fireEvent.click(screen.getByRole('button', { name: 'Refresh' }));
+
+    expect(await screen.findByText('Every layout passes')).toBeInTheDocument();
+    expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(4);
+  });
+
+  it('should say so when no reference field has a layout', () => {
+    mockSdk.parameters.installation = { validationConfigs: [] };
+    render(<EntryEditor />);
 
-    expect(getByText('Hello Entry Editor Component (AppId: test-app)')).toBeInTheDocument();
+    expect(screen.getByText('None of the reference fields of Cards container has a layout configured.')).toBeInTheDocument();
   });
 });
@@ -1,16 +1,82 @@
-import { Paragraph } from '@contentful/f36-components';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button, Flex, Heading, Note, Paragraph, Spinner } from '@contentful/f36-components';
 import { EditorAppSDK } from '@contentful/app-sdk';
-import { /* useCMA, */ useSDK } from '@contentful/react-apps-toolkit';
+import { useSDK } from '@contentful/react-apps-toolkit';
+import {
+  countProblems,
+  EntryFieldReport,
+  formatProblemCounts,
+  getFieldStatus,
+  getLayoutFields,
+  validateEntryLayouts,
+} from '../utils/fieldValidation';
+import FieldLayoutReport from '../components/FieldLayoutReport';
 
+// Validates every reference field of the entry that has a layout configured, and reports them together:
+// a summary of how many fields pass, then the problems of each field with links to the cards concerned.
 const Entry = () => {
   const sdk = useSDK<EditorAppSDK>();
-  /*
-     To use the cma, inject it as follows.
-     If it is not needed, you can remove the next line.
-  */
-  // const cma = useCMA();
+  const [reports, setReports] = useState<EntryFieldReport[] | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  // Id of the latest run, a refresh discards the results of the run it replaces
+  const latestRunRef = useRef(0);
 
-  return <Paragraph>Hello Entry Editor Component (AppId: {sdk.ids.app})</Paragraph>;
+  const layoutFields = useMemo(() => getLayoutFields(sdk), [sdk.contentType, sdk.parameters.installation]);
+
+  const runValidation = async () => {
+    const runId = ++latestRunRef.current;
+    setIsValidating(true);
+    const nextReports = await validateEntryLayouts(sdk, layoutFields, () => runId !== latestRunRef.current);
+    if (nextReports) {
+      setReports(nextReports);
+      setIsValidating(false);
+    }
+  };
+
+  useEffect(() => {
+    runValidation();
+  }, [sdk.entry, layoutFields]); // runValidation only reads the sdk and the layout fields
+
+  if (layoutFields.length === 0) {
+    return (
+      <Note variant="neutral" title="No layouts configured">
+        None of the reference fields of {sdk.contentType.name} has a layout configured.
+      </Note>
+    );
+  }
+
+  const openEntry = (entryId: string) => sdk.navigator.openEntry(entryId, { slideIn: true });
+  const failing = reports?.filter(({ report }) => getFieldStatus(report) === 'failed').length ?? 0;
+  const totals = countProblems(reports?.flatMap(({ report }) => report.errors) ?? []);
+
+  return (
+    <Flex flexDirection="column" gap="spacingM" padding="spacingL">
+      <Flex justifyContent="space-between" alignItems="center">
+        <Heading marginBottom="none">Layout validation</Heading>
+        <Button variant="secondary" size="small" isLoading={isValidating} isDisabled={isValidating} onClick={runValidation}>
+          Refresh
+        </Button>
+      </Flex>
+      {reports === null ? (
+        <Flex alignItems="center" gap="spacingXs">
+          <Spinner size="small" />
+          <Paragraph marginBottom="none">Validating layouts…</Paragraph>
+        </Flex>
+      ) : (
+        <>
+          <Note
+            variant={failing > 0 ? 'negative' : totals.warnings > 0 ? 'warning' : 'positive'}
+            title={failing > 0 ? `${failing} of ${reports.length} layouts fail` : 'Every layout passes'}
+          >
+            {reports.length} {reports.length === 1 ? 'field' : 'fields'} checked: {formatProblemCounts(totals)}.
+          </Note>
+          {reports.map(({ fieldId, name, report }) => (
+            <FieldLayoutReport key={fieldId} fieldId={fieldId} name={name} report={report} onOpenEntry={openEntry} />
+          ))}
+        </>
+      )}
+    </Flex>
+  );
 };
 
 export default Entry;
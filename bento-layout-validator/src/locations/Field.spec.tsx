@@ -1,7 +1,7 @@
 import React from 'react';
-import { render, screen, act, waitFor } from '@testing-library/react';
+import { render, screen, act, waitFor, fireEvent, within } from '@testing-library/react';
 import Field from './Field';
-import { mockSdk as defaultMockSdk, createMockSdk } from '../../test/mocks'; // Use createMockSdk for fresh instances
+import { mockSdk as defaultMockSdk, createMockSdk, link } from '../../test/mocks'; // Use createMockSdk for fresh instances
 import { vi } from 'vitest';
 import { ValidationConfig } from '../types';
 import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
@@ -13,7 +13,7 @@ import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
 // vi.mock('../validators/bentoValidator');
 
 vi.mock('@contentful/react-apps-toolkit', async (importOriginal) => {
-  const original = await importOriginal();
+  const original = await importOriginal<typeof import('@contentful/react-apps-toolkit')>();
   return {
     ...original,
     useSDK: () => mockSdk, // Use the global mockSdk instance by default
@@ -39,6 +39,15 @@ const createMockContentfulEntry = (id: string, contentTypeId: string): Partial<E
   fields: {}, // Keep fields empty for simplicity
 });
 
+// Serves the given entries from sdk.space.getEntries, honouring the sys.id[in] filter of the query
+const mockLinkedEntries = (...entries: Partial<EntryProps>[]) => {
+  mockSdk._mockSpaceGetEntries.mockImplementation((query: { 'sys.id[in]': string }) => {
+    const ids = query['sys.id[in]'].split(',');
+    const items = entries.filter((entry) => ids.includes(entry.sys!.id));
+    return Promise.resolve({ items, total: items.length, skip: 0, limit: ids.length });
+  });
+};
+
 const bento12Config: ValidationConfig = {
   layoutType: 'bento-1-2',
   targetContentType: 'CardsContainer',
@@ -58,38 +67,34 @@ const bento12Config: ValidationConfig = {
   },
 };
 
-declare global {
-  interface Window { __TEST_VALIDATION_CONFIG__?: ValidationConfig; }
-}
-
 describe('Field Component Validation', () => {
   beforeEach(() => {
     // Reset mockSdk instance for each test to ensure isolation
     mockSdk = createMockSdk();
     // Now, explicitly set the global mock used by useSDK:
     vi.mock('@contentful/react-apps-toolkit', async (importOriginal) => {
-        const original = await importOriginal();
+        const original = await importOriginal<typeof import('@contentful/react-apps-toolkit')>();
         return {
             ...original,
             useSDK: () => mockSdk,
         };
     });
 
-    window.__TEST_VALIDATION_CONFIG__ = undefined; // Reset test config override
+    mockSdk.field.id = 'contentCards';
+    mockSdk.contentType.sys.id = 'CardsContainer';
     mockSdk.field.type = 'Array';
     mockSdk.field.items = { type: 'Link', linkType: 'Entry' };
   });
 
   afterEach(() => {
     vi.restoreAllMocks(); // Restore all mocks after each test
-    window.__TEST_VALIDATION_CONFIG__ = undefined;
   });
 
   const renderComponent = () => render(<Field />);
 
   describe('With bento-1-2 Configuration', () => {
     beforeEach(() => {
-      window.__TEST_VALIDATION_CONFIG__ = bento12Config;
+      mockSdk.parameters.installation = { validationConfigs: [bento12Config] };
     });
 
     it('Scenario 1.1 (Valid): should display success for a valid layout', async () => {
@@ -99,10 +104,11 @@ describe('Field Component Validation', () => {
         { sys: { id: 'entryB2' } },
       ];
       mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries);
-      mockSdk._mockSpaceGetEntry
-        .mockResolvedValueOnce(createMockContentfulEntry('entryA1', 'CardTypeA'))
-        .mockResolvedValueOnce(createMockContentfulEntry('entryB1', 'CardTypeB'))
-        .mockResolvedValueOnce(createMockContentfulEntry('entryB2', 'CardTypeB'));
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        createMockContentfulEntry('entryB2', 'CardTypeB'),
+      );
 
       renderComponent();
 
@@ -119,17 +125,51 @@ describe('Field Component Validation', () => {
         { sys: { id: 'entryB1' } },
       ];
       mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries);
-      mockSdk._mockSpaceGetEntry
-        .mockResolvedValueOnce(createMockContentfulEntry('entryA1', 'CardTypeA'))
-        .mockResolvedValueOnce(createMockContentfulEntry('entryC1', 'CardTypeA')) // Invalid here
-        .mockResolvedValueOnce(createMockContentfulEntry('entryB1', 'CardTypeB'));
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryC1', 'CardTypeA'), // Invalid here
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+      );
 
       renderComponent();
 
       await waitFor(() => {
         const errorTextarea = screen.getByRole('textbox');
         expect(errorTextarea).toBeInTheDocument();
-        expect(errorTextarea).toHaveValue(expect.stringContaining("Invalid content type 'CardTypeA' at position 1 (rightColumnTopCard). Allowed types: CardTypeB, CardTypeC."));
+        expect((errorTextarea as HTMLTextAreaElement).value).toContain("Invalid content type 'CardTypeA' at position 1 (rightColumnTopCard). Allowed types: CardTypeB, CardTypeC.");
+      });
+    });
+
+    it('should preview the cards as a grid, marking the misplaced one', async () => {
+      mockSdk._mockFieldGetValue.mockReturnValue([{ sys: { id: 'entryA1' } }, { sys: { id: 'entryC1' } }]);
+      mockLinkedEntries(
+        { ...createMockContentfulEntry('entryA1', 'CardTypeA'), fields: { title: { 'en-US': 'Spring sale' } } },
+        createMockContentfulEntry('entryC1', 'CardTypeA')
+      );
+
+      renderComponent();
+
+      const preview = await screen.findByRole('list', { name: 'Layout preview' });
+      expect(preview).toBeInTheDocument();
+      expect(screen.getByRole('listitem', { name: 'leftColumnFullHeightCard: valid' })).toHaveTextContent('Spring sale');
+      expect(screen.getByRole('listitem', { name: 'rightColumnTopCard: invalid' })).toHaveTextContent('entryC1');
+      expect(screen.getByRole('listitem', { name: 'rightColumnBottomCard: invalid' })).toHaveTextContent('Empty');
+    });
+
+    it('should list each error on its own line', async () => {
+      mockSdk._mockFieldGetValue.mockReturnValue([{ sys: { id: 'entryA1' } }]);
+      mockLinkedEntries(createMockContentfulEntry('entryA1', 'CardTypeA'));
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect((screen.getByRole('textbox') as HTMLTextAreaElement).value).toBe(
+          [
+            '- Expected 3 entries, but found 1.',
+            '- Missing entry at position 1 (rightColumnTopCard).',
+            '- Missing entry at position 2 (rightColumnBottomCard).',
+          ].join('\n')
+        );
       });
     });
 
@@ -139,18 +179,19 @@ describe('Field Component Validation', () => {
         { sys: { id: 'entryB1' } },
       ]; // Expected 3, got 2
       mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries);
-      mockSdk._mockSpaceGetEntry
-        .mockResolvedValueOnce(createMockContentfulEntry('entryA1', 'CardTypeA'))
-        .mockResolvedValueOnce(createMockContentfulEntry('entryB1', 'CardTypeB'));
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+      );
 
       renderComponent();
 
       await waitFor(() => {
         const errorTextarea = screen.getByRole('textbox');
         expect(errorTextarea).toBeInTheDocument();
-        expect(errorTextarea).toHaveValue(expect.stringContaining("Expected 3 entries, but found 2."));
+        expect((errorTextarea as HTMLTextAreaElement).value).toContain("Expected 3 entries, but found 2.");
         // It will also show missing entry for the 3rd position
-        expect(errorTextarea).toHaveValue(expect.stringContaining("Missing entry at position 2 (rightColumnBottomCard)."));
+        expect((errorTextarea as HTMLTextAreaElement).value).toContain("Missing entry at position 2 (rightColumnBottomCard).");
       });
     });
 
@@ -161,19 +202,495 @@ describe('Field Component Validation', () => {
         { sys: { id: 'entryB1' } },
       ];
       mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries);
-      mockSdk._mockSpaceGetEntry
-        .mockResolvedValueOnce(createMockContentfulEntry('entryA1', 'CardTypeA'))
-        .mockResolvedValueOnce(createMockContentfulEntry('entryA2', 'CardTypeA'))
-        .mockResolvedValueOnce(createMockContentfulEntry('entryB1', 'CardTypeB'));
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryA2', 'CardTypeA'),
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+      );
 
       renderComponent();
 
       await waitFor(() => {
         const errorTextarea = screen.getByRole('textbox');
         expect(errorTextarea).toBeInTheDocument();
-        expect(errorTextarea).toHaveValue(expect.stringContaining("Too many entries of type 'CardTypeA'. Expected maximum 1, but found 2."));
+        expect((errorTextarea as HTMLTextAreaElement).value).toContain("Too many entries of type 'CardTypeA'. Expected maximum 1, but found 2.");
+      });
+    });
+  });
+
+  describe('Enforcement mode', () => {
+    const invalidLinkedEntries = [{ sys: { id: 'entryA1' } }, { sys: { id: 'entryA2' } }, { sys: { id: 'entryB1' } }];
+
+    beforeEach(() => {
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryA2', 'CardTypeA'),
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        createMockContentfulEntry('entryB2', 'CardTypeB'),
+      );
+    });
+
+    it('should mark the field invalid and show the blocking state for an invalid layout in block mode', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [{ ...bento12Config, enforcement: 'block' }] };
+      mockSdk._mockFieldGetValue.mockReturnValue(invalidLinkedEntries);
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByText('Publishing blocked')).toBeInTheDocument();
+      });
+      expect(mockSdk.field.setInvalid).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should only warn for an invalid layout in warn mode', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [{ ...bento12Config, enforcement: 'warn' }] };
+      mockSdk._mockFieldGetValue.mockReturnValue(invalidLinkedEntries);
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('textbox')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Publishing blocked')).not.toBeInTheDocument();
+      expect(mockSdk.field.setInvalid).toHaveBeenLastCalledWith(false);
+    });
+
+    it('should unblock publishing once the layout becomes valid', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [{ ...bento12Config, enforcement: 'block' }] };
+      mockSdk._mockFieldGetValue.mockReturnValue(invalidLinkedEntries);
+
+      renderComponent();
+      await waitFor(() => {
+        expect(screen.getByText('Publishing blocked')).toBeInTheDocument();
+      });
+
+      await act(async () => {
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }]);
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Publishing blocked')).not.toBeInTheDocument();
+      expect(mockSdk.field.setInvalid).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe('With a layout discriminator field', () => {
+    const bento21Config: ValidationConfig = {
+      ...bento12Config,
+      layoutType: 'bento-2-1',
+      positions: {
+        leftColumnTopCard: { index: 0, allowedTypes: ['CardTypeB', 'CardTypeC'] },
+        leftColumnBottomCard: { index: 1, allowedTypes: ['CardTypeB'] },
+        rightColumnFullHeightCard: { index: 2, allowedTypes: ['CardTypeA'] },
+      },
+    };
+
+    // Mimics an entry field API for the discriminator field, storing its change listener
+    const createLayoutField = (value: string | undefined) => {
+      const layoutField: { value: string | undefined; listener?: (value: any) => void; [key: string]: any } = {
+        id: 'layout',
+        locales: ['en-US'],
+        value,
+        getValue: vi.fn(() => layoutField.value),
+        onValueChanged: vi.fn((_locale: string, callback: (value: any) => void) => {
+          layoutField.listener = callback;
+          return () => {};
+        }),
+      };
+      return layoutField;
+    };
+
+    const linkedEntries = [{ sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }, { sys: { id: 'entryA1' } }];
+
+    beforeEach(() => {
+      mockSdk.parameters.installation = {
+        validationConfigs: [
+          { ...bento12Config, layoutField: 'layout' },
+          { ...bento21Config, layoutField: 'layout' },
+        ],
+      };
+      mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries);
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        createMockContentfulEntry('entryB2', 'CardTypeB'),
+      );
+    });
+
+    it('should validate against the layout selected by the discriminator field', async () => {
+      mockSdk.entry.fields = { layout: createLayoutField('bento-2-1') };
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      });
+    });
+
+    it('should re-validate when the discriminator field changes', async () => {
+      const layoutField = createLayoutField('bento-2-1');
+      mockSdk.entry.fields = { layout: layoutField };
+
+      renderComponent();
+      await waitFor(() => {
+        expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      });
+
+      await act(async () => {
+        layoutField.value = 'bento-1-2';
+        layoutField.listener!('bento-1-2');
+      });
+
+      await waitFor(() => {
+        const errorTextarea = screen.getByRole('textbox');
+        expect((errorTextarea as HTMLTextAreaElement).value).toContain(
+          "Invalid content type 'CardTypeB' at position 0 (leftColumnFullHeightCard). Allowed types: CardTypeA."
+        );
+      });
+    });
+
+    it('should report an unknown layout value', async () => {
+      mockSdk.entry.fields = { layout: createLayoutField('bento-3-3') };
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('textbox')).toHaveValue(
+          "- Unknown layout 'bento-3-3' in field 'layout'. Expected one of: bento-1-2, bento-2-1."
+        );
+      });
+    });
+
+    it('should suggest the fitting layout when the discriminator field is empty', async () => {
+      mockSdk.entry.fields = { layout: createLayoutField(undefined) };
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(
+          screen.getByText("These cards fit bento-2-1. Set the field 'layout' to choose a layout.")
+        ).toBeInTheDocument();
+      });
+      expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+    });
+
+    it('should suggest the fitting layouts when no discriminator field is configured', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [bento12Config, bento21Config] };
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByText('These cards fit bento-2-1.')).toBeInTheDocument();
+      });
+    });
+
+    it('should show the closest layout and its errors when no layout fits', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [bento12Config, bento21Config] };
+      // Two cards only: bento-2-1 misses its last slot, bento-1-2 also has the wrong first card
+      mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries.slice(0, 2));
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('No configured layout fits these cards. Closest is bento-2-1 with 2 errors.')
+        ).toBeInTheDocument();
+      });
+      const errorTextarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+      expect(errorTextarea.value).toContain('Missing entry at position 2 (rightColumnFullHeightCard).');
+      expect(errorTextarea.value).not.toContain('leftColumnFullHeightCard');
+    });
+
+    it('should report a discriminator field missing from the content type', async () => {
+      mockSdk.entry.fields = {};
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('textbox')).toHaveValue("- Layout field 'layout' does not exist on this content type.");
+      });
+    });
+  });
+
+  describe('Validating every locale', () => {
+    // Mimics the entry field API of the reference field, holding a value per locale
+    const createReferenceField = (values: { [locale: string]: any }) => ({
+      id: 'contentCards',
+      locales: Object.keys(values),
+      getValue: vi.fn((locale: string) => values[locale]),
+      onValueChanged: vi.fn(() => () => {}),
+    });
+
+    const validCards = [{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }];
+
+    beforeEach(() => {
+      mockSdk.parameters.installation = { validationConfigs: [{ ...bento12Config, validateAllLocales: true }] };
+      mockSdk._mockFieldGetValue.mockReturnValue(validCards);
+      mockLinkedEntries(
+        createMockContentfulEntry('entryA1', 'CardTypeA'),
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        createMockContentfulEntry('entryB2', 'CardTypeB'),
+      );
+    });
+
+    it('should report a layout broken in another locale under that locale', async () => {
+      mockSdk.entry.fields = { contentCards: createReferenceField({ 'en-US': validCards, 'de-DE': validCards.slice(0, 2) }) };
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByText('de-DE')).toBeInTheDocument();
+      });
+      const errorTextarea = screen.getByRole('textbox', { name: 'Validation errors for de-DE' }) as HTMLTextAreaElement;
+      expect(errorTextarea.value).toContain('Expected 3 entries, but found 2.');
+      expect(screen.queryByText('en-US')).not.toBeInTheDocument();
+      // Both locales are resolved with a single query
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(1);
+      expect(mockSdk.entry.fields.contentCards.onValueChanged).toHaveBeenCalledWith('de-DE', expect.any(Function));
+    });
+
+    it('should check the cards of a non-localized field in every locale', async () => {
+      mockSdk.parameters.installation = {
+        validationConfigs: [
+          {
+            ...bento12Config,
+            validateAllLocales: true,
+            positions: {
+              ...bento12Config.positions,
+              leftColumnFullHeightCard: { index: 0, allowedTypes: ['CardTypeA'], fields: { title: { required: true } } },
+            },
+          },
+        ],
+      };
+      mockSdk.entry.fields = { contentCards: createReferenceField({ 'en-US': validCards }) };
+      mockLinkedEntries(
+        { ...createMockContentfulEntry('entryA1', 'CardTypeA'), fields: { title: { 'en-US': 'Title', 'de-DE': '' } } },
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        createMockContentfulEntry('entryB2', 'CardTypeB'),
+      );
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByRole('textbox', { name: 'Validation errors for de-DE' })).toHaveValue(
+          "- Field 'title' of the card at position 0 (leftColumnFullHeightCard) is required."
+        );
+      });
+    });
+  });
+
+  describe('Reference editor', () => {
+    const links = [{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }];
+
+    beforeEach(() => {
+      mockSdk.parameters.installation = { validationConfigs: [bento12Config] };
+      mockSdk._mockFieldGetValue.mockReturnValue(links);
+      mockLinkedEntries(
+        { ...createMockContentfulEntry('entryA1', 'CardTypeA'), fields: { title: { 'en-US': 'Spring sale' } } },
+        createMockContentfulEntry('entryB1', 'CardTypeA')
+      );
+    });
+
+    // Opens the actions menu of a card and picks an action
+    const chooseCardAction = async (title: string, action: string) => {
+      fireEvent.click(within(await screen.findByRole('article', { name: title })).getByRole('button', { name: 'Actions' }));
+      fireEvent.click(await screen.findByRole('menuitem', { name: action }));
+    };
+
+    it('should show each card with the errors reported for it', async () => {
+      renderComponent();
+
+      const card = await screen.findByRole('article', { name: 'entryB1' });
+      await waitFor(() => {
+        expect(card).toHaveTextContent(
+          "Invalid content type 'CardTypeA' at position 1 (rightColumnTopCard). Allowed types: CardTypeB, CardTypeC."
+        );
+      });
+      expect(screen.getByRole('article', { name: 'Spring sale' })).toHaveTextContent('Position 0 (leftColumnFullHeightCard)');
+    });
+
+    it('should reorder and remove cards', async () => {
+      renderComponent();
+
+      await chooseCardAction('Spring sale', 'Move down');
+      expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([links[1], links[0]]);
+
+      await chooseCardAction('Spring sale', 'Remove');
+      expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([links[1]]);
+
+      await chooseCardAction('entryB1', 'Remove');
+      expect(mockSdk.field.removeValue).toHaveBeenCalled();
+    });
+
+    it('should reorder cards by drag and drop', async () => {
+      renderComponent();
+
+      const [first, second] = await screen.findAllByRole('article');
+      fireEvent.dragStart(second.parentElement!);
+      fireEvent.dragOver(first.parentElement!);
+      fireEvent.drop(first.parentElement!);
+
+      expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([links[1], links[0]]);
+    });
+
+    it('should drop a card dragged down in front of the card it is dropped on', async () => {
+      const third = { sys: { id: 'entryB2' } };
+      mockSdk._mockFieldGetValue.mockReturnValue([...links, third]);
+      renderComponent();
+
+      const [first, second, last] = await screen.findAllByRole('article');
+      fireEvent.dragStart(first.parentElement!);
+      fireEvent.dragOver(second.parentElement!);
+      fireEvent.drop(second.parentElement!);
+      expect(mockSdk.field.setValue).not.toHaveBeenCalled();
+
+      fireEvent.dragStart(first.parentElement!);
+      fireEvent.dragOver(last.parentElement!);
+      fireEvent.drop(last.parentElement!);
+      expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([links[1], links[0], third]);
+    });
+
+    it('should drop a card after the last card', async () => {
+      const third = { sys: { id: 'entryB2' } };
+      mockSdk._mockFieldGetValue.mockReturnValue([...links, third]);
+      renderComponent();
+
+      const [first] = await screen.findAllByRole('article');
+      fireEvent.dragStart(first.parentElement!);
+      const end = screen.getByText('Drop here to move the card to the end');
+      fireEvent.dragOver(end);
+      fireEvent.drop(end);
+
+      expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([links[1], third, links[0]]);
+      expect(screen.queryByText('Drop here to move the card to the end')).not.toBeInTheDocument();
+    });
+
+    it('should add existing entries', async () => {
+      mockSdk.dialogs.selectMultipleEntries.mockResolvedValue([{ sys: { id: 'entryB2' } }]);
+      renderComponent();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Add existing' }));
+
+      await waitFor(() => {
+        expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([...links, link('entryB2')]);
+      });
+      expect(mockSdk.dialogs.selectMultipleEntries).toHaveBeenCalledWith({
+        locale: 'en-US',
+        contentTypes: ['CardTypeA', 'CardTypeB', 'CardTypeC'],
+      });
+    });
+
+    it('should pick existing entries of every type the layout allows while the field is empty too', async () => {
+      mockSdk._mockFieldGetValue.mockReturnValue([]);
+      mockSdk.dialogs.selectMultipleEntries.mockResolvedValue([]);
+      renderComponent();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Add existing' }));
+
+      await waitFor(() => {
+        expect(mockSdk.dialogs.selectMultipleEntries).toHaveBeenCalledWith({
+          locale: 'en-US',
+          contentTypes: ['CardTypeA', 'CardTypeB', 'CardTypeC'],
+        });
       });
     });
+
+    it('should pick existing entries of the types the field accepts without a layout', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [] };
+      mockSdk.field.items = { type: 'Link', linkType: 'Entry', validations: [{ linkContentType: ['CardTypeA', 'CardTypeB'] }] };
+      mockSdk.dialogs.selectMultipleEntries.mockResolvedValue([]);
+      renderComponent();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Add existing' }));
+
+      await waitFor(() => {
+        expect(mockSdk.dialogs.selectMultipleEntries).toHaveBeenCalledWith({
+          locale: 'en-US',
+          contentTypes: ['CardTypeA', 'CardTypeB'],
+        });
+      });
+    });
+
+    it('should only create entries of the types allowed at the next empty position', async () => {
+      mockSdk._mockFieldGetValue.mockReturnValue([links[0]]);
+      renderComponent();
+      await screen.findByRole('list', { name: 'Layout preview' });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Create new' }));
+      expect(screen.getByRole('menuitem', { name: 'CardTypeB' })).toBeInTheDocument();
+      expect(screen.getByRole('menuitem', { name: 'CardTypeC' })).toBeInTheDocument();
+      expect(screen.queryByRole('menuitem', { name: 'CardTypeA' })).not.toBeInTheDocument();
+    });
+
+    it('should link a newly created entry', async () => {
+      mockSdk._mockFieldGetValue.mockReturnValue([]);
+      mockSdk.navigator.openNewEntry.mockResolvedValue({ entity: { sys: { id: 'newEntry' } } });
+      renderComponent();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Create new CardTypeA' }));
+
+      await waitFor(() => {
+        expect(mockSdk.field.setValue).toHaveBeenLastCalledWith([link('newEntry')]);
+      });
+      expect(mockSdk.navigator.openNewEntry).toHaveBeenCalledWith('CardTypeA', { slideIn: { waitForClose: true } });
+    });
+
+    it('should only allow opening cards while the field is disabled', async () => {
+      mockSdk.field.onIsDisabledChanged = vi.fn((callback: (isDisabled: boolean) => void) => {
+        callback(true);
+        return () => {};
+      });
+      renderComponent();
+
+      await chooseCardAction('Spring sale', 'Open');
+      expect(mockSdk.navigator.openEntry).toHaveBeenCalledWith('entryA1', { slideIn: true });
+      expect(screen.queryByRole('menuitem', { name: 'Remove' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Add existing' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Order fix', () => {
+    const links = [{ sys: { id: 'entryB1' } }, { sys: { id: 'entryA1' } }, { sys: { id: 'entryB2' } }];
+
+    beforeEach(() => {
+      mockSdk.parameters.installation = { validationConfigs: [bento12Config] };
+      mockSdk._mockFieldGetValue.mockReturnValue(links);
+    });
+
+    it('should show the proposed order and apply it', async () => {
+      mockLinkedEntries(
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        { ...createMockContentfulEntry('entryA1', 'CardTypeA'), fields: { title: { 'en-US': 'Spring sale' } } },
+        createMockContentfulEntry('entryB2', 'CardTypeB')
+      );
+      renderComponent();
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Fix card order' }));
+      const proposal = screen.getByRole('list', { name: 'Proposed order' });
+      expect(within(proposal).getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+        'Spring sale (CardTypeA) as leftColumnFullHeightCard',
+        'entryB1 (CardTypeB) as rightColumnTopCard',
+        'entryB2 (CardTypeB) as rightColumnBottomCard',
+      ]);
+      expect(mockSdk.field.setValue).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Apply order' }));
+      expect(mockSdk.field.setValue).toHaveBeenCalledWith([links[1], links[0], links[2]]);
+    });
+
+    it('should not offer a fix when no order satisfies the layout', async () => {
+      mockLinkedEntries(
+        createMockContentfulEntry('entryB1', 'CardTypeB'),
+        createMockContentfulEntry('entryA1', 'CardTypeB'),
+        createMockContentfulEntry('entryB2', 'CardTypeB')
+      );
+      renderComponent();
+
+      await screen.findByRole('list', { name: 'Layout preview' });
+      expect(screen.queryByRole('button', { name: 'Fix card order' })).not.toBeInTheDocument();
+    });
   });
 
   it('Test Case 2: Field is not a valid reference field (wrong field type)', async () => {
@@ -185,7 +702,7 @@ describe('Field Component Validation', () => {
     await waitFor(() => {
       const errorTextarea = screen.getByRole('textbox');
       expect(errorTextarea).toBeInTheDocument();
-      expect(errorTextarea).toHaveValue("This validator is intended for multiple entry reference fields.");
+      expect(errorTextarea).toHaveValue("- This validator is intended for multiple entry reference fields.");
     });
   });
 
@@ -198,26 +715,60 @@ describe('Field Component Validation', () => {
     await waitFor(() => {
       const errorTextarea = screen.getByRole('textbox');
       expect(errorTextarea).toBeInTheDocument();
-      expect(errorTextarea).toHaveValue("This validator is intended for multiple entry reference fields.");
+      expect(errorTextarea).toHaveValue("- This validator is intended for multiple entry reference fields.");
+    });
+  });
+
+  it('Test Case 6: No layout configured for this content type and field', async () => {
+    mockSdk.parameters.installation = {
+      validationConfigs: [{ ...bento12Config, targetContentType: 'OtherContainer' }],
+    };
+    mockSdk._mockFieldGetValue.mockReturnValue(null);
+
+    renderComponent();
+
+    await waitFor(() => {
+      const errorTextarea = screen.getByRole('textbox');
+      expect(errorTextarea).toHaveValue(
+        '- No bento layout configuration found for this field. Configure one in the app settings.'
+      );
+    });
+  });
+
+  it('Test Case 7: Layout configuration fails the config linter', async () => {
+    mockSdk.parameters.installation = {
+      validationConfigs: [{ ...bento12Config, limits: { ...bento12Config.limits, totalEntries: 2 } }],
+    };
+    mockSdk._mockFieldGetValue.mockReturnValue(null);
+
+    renderComponent();
+
+    await waitFor(() => {
+      const errorTextarea = screen.getByRole('textbox');
+      expect((errorTextarea as HTMLTextAreaElement).value).toContain(
+        "Invalid layout configuration 'bento-1-2' at /limits/totalEntries: totalEntries (at most 2) is smaller than the number of positions (3)."
+      );
     });
+    expect(mockSdk._mockSpaceGetEntries).not.toHaveBeenCalled();
   });
 
   it('Test Case 3: Error fetching entries', async () => {
+    mockSdk.parameters.installation = { validationConfigs: [bento12Config] };
     const linkedEntries = [{ sys: { id: 'entryA1' } }];
     mockSdk._mockFieldGetValue.mockReturnValue(linkedEntries);
-    mockSdk._mockSpaceGetEntry.mockRejectedValueOnce(new Error('Fetch failed'));
+    mockSdk._mockSpaceGetEntries.mockRejectedValueOnce(new Error('Fetch failed'));
 
     renderComponent();
 
     await waitFor(() => {
       const errorTextarea = screen.getByRole('textbox');
       expect(errorTextarea).toBeInTheDocument();
-      expect(errorTextarea).toHaveValue("Error fetching linked entry details for validation.");
+      expect(errorTextarea).toHaveValue("- Error fetching linked entry details for validation.");
     });
   });
 
   it('Test Case 4: No linked entries (empty field) when entries are expected', async () => {
-    window.__TEST_VALIDATION_CONFIG__ = bento12Config; // Expects 3 entries
+    mockSdk.parameters.installation = { validationConfigs: [bento12Config] }; // Expects 3 entries
     mockSdk._mockFieldGetValue.mockReturnValue(null); // No entries
 
     renderComponent();
@@ -225,23 +776,36 @@ describe('Field Component Validation', () => {
     await waitFor(() => {
       const errorTextarea = screen.getByRole('textbox');
       expect(errorTextarea).toBeInTheDocument();
-      expect(errorTextarea).toHaveValue(expect.stringContaining("Expected 3 entries, but found 0."));
-      expect(errorTextarea).toHaveValue(expect.stringContaining("Missing entry at position 0 (leftColumnFullHeightCard)."));
+      expect((errorTextarea as HTMLTextAreaElement).value).toContain("Expected 3 entries, but found 0.");
+      expect((errorTextarea as HTMLTextAreaElement).value).toContain("Missing entry at position 0 (leftColumnFullHeightCard).");
     });
   });
 
+  it('Test Case 4b: No linked entries (empty field) when the layout allows empty', async () => {
+    mockSdk.parameters.installation = { validationConfigs: [{ ...bento12Config, allowEmpty: true }] };
+    mockSdk._mockFieldGetValue.mockReturnValue([]);
+
+    renderComponent();
+
+    await waitFor(() => {
+      expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+    });
+    expect(mockSdk._mockSpaceGetEntries).not.toHaveBeenCalled();
+  });
+
   it('Test Case 5: Re-validation on value change', async () => {
-    window.__TEST_VALIDATION_CONFIG__ = bento12Config;
+    mockSdk.parameters.installation = { validationConfigs: [bento12Config] };
 
     // Initial state: Valid
     const initialLinkedEntries = [
       { sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } },
     ];
     mockSdk._mockFieldGetValue.mockReturnValue(initialLinkedEntries);
-    mockSdk._mockSpaceGetEntry
-      .mockResolvedValueOnce(createMockContentfulEntry('entryA1', 'CardTypeA'))
-      .mockResolvedValueOnce(createMockContentfulEntry('entryB1', 'CardTypeB'))
-      .mockResolvedValueOnce(createMockContentfulEntry('entryB2', 'CardTypeB'));
+    mockLinkedEntries(
+      createMockContentfulEntry('entryA1', 'CardTypeA'),
+      createMockContentfulEntry('entryB1', 'CardTypeB'),
+      createMockContentfulEntry('entryB2', 'CardTypeB'),
+    );
 
     renderComponent();
     await waitFor(() => {
@@ -250,9 +814,7 @@ describe('Field Component Validation', () => {
 
     // Simulate value change to an invalid state
     const newLinkedEntries = [{ sys: { id: 'entryX1' } }]; // Invalid: too few, wrong type potentially
-    mockSdk._mockSpaceGetEntry.mockReset(); // Reset for new calls
-    mockSdk._mockSpaceGetEntry
-        .mockResolvedValueOnce(createMockContentfulEntry('entryX1', 'CardTypeX')); // Some other type
+    mockLinkedEntries(createMockContentfulEntry('entryX1', 'CardTypeX')); // Some other type
 
     // Act: Simulate Contentful calling the onValueChanged callback
     await act(async () => {
@@ -263,8 +825,219 @@ describe('Field Component Validation', () => {
     await waitFor(() => {
       const errorTextarea = screen.getByRole('textbox');
       expect(errorTextarea).toBeInTheDocument();
-      expect(errorTextarea).toHaveValue(expect.stringContaining("Expected 3 entries, but found 1."));
-      expect(errorTextarea).toHaveValue(expect.stringContaining("Invalid content type 'CardTypeX' at position 0 (leftColumnFullHeightCard)."));
+      expect((errorTextarea as HTMLTextAreaElement).value).toContain("Expected 3 entries, but found 1.");
+      expect((errorTextarea as HTMLTextAreaElement).value).toContain("Invalid content type 'CardTypeX' at position 0 (leftColumnFullHeightCard).");
+    });
+  });
+
+  describe('Linked entry fetching', () => {
+    const entryA1 = createMockContentfulEntry('entryA1', 'CardTypeA');
+    const entryB1 = createMockContentfulEntry('entryB1', 'CardTypeB');
+    const entryB2 = createMockContentfulEntry('entryB2', 'CardTypeB');
+    const entryX1 = createMockContentfulEntry('entryX1', 'CardTypeX');
+
+    beforeEach(() => {
+      mockSdk.parameters.installation = { validationConfigs: [bento12Config] };
+      mockSdk._mockFieldGetValue.mockReturnValue([{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }]);
+      mockLinkedEntries(entryA1, entryB1, entryB2, entryX1);
+    });
+
+    it('should fetch all linked entries with a single query', async () => {
+      renderComponent();
+
+      await waitFor(() => {
+        expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      });
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(1);
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledWith({ 'sys.id[in]': 'entryA1,entryB1,entryB2', limit: 3 });
+      expect(mockSdk._mockSpaceGetEntry).not.toHaveBeenCalled();
+    });
+
+    it('should validate a burst of value changes once and reuse cached entries', async () => {
+      renderComponent();
+      await waitFor(() => {
+        expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      });
+
+      await act(async () => {
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryB1' } }]);
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryB1' } }, { sys: { id: 'entryA1' } }]);
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryX1' } }, { sys: { id: 'entryA1' } }]);
+      });
+
+      await waitFor(() => {
+        expect((screen.getByRole('textbox') as HTMLTextAreaElement).value).toContain(
+          "Invalid content type 'CardTypeX' at position 0 (leftColumnFullHeightCard)."
+        );
+      });
+      // Initial query, then one query for the only uncached entry of the settled value
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(2);
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenLastCalledWith({ 'sys.id[in]': 'entryX1', limit: 1 });
+    });
+
+    it('should report a deleted card by id and keep validating the other cards', async () => {
+      mockSdk._mockFieldGetValue.mockReturnValue([{ sys: { id: 'entryX1' } }, { sys: { id: 'deleted' } }, { sys: { id: 'entryB2' } }]);
+
+      renderComponent();
+
+      await waitFor(() => {
+        const errorTextarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+        expect(errorTextarea.value).toContain(
+          "Linked entry 'deleted' at position 1 (rightColumnTopCard) is missing or inaccessible. It may have been deleted."
+        );
+        expect(errorTextarea.value).toContain("Invalid content type 'CardTypeX' at position 0 (leftColumnFullHeightCard).");
+      });
+      expect(screen.queryByText('Error fetching linked entry details for validation.')).not.toBeInTheDocument();
+    });
+
+    it('should refetch linked entries to flag unpublished cards when the layout checks their status', async () => {
+      mockSdk.parameters.installation = { validationConfigs: [{ ...bento12Config, enforcement: 'block', entryStatus: { draft: 'warning' } }] };
+
+      renderComponent();
+      await waitFor(() => {
+        expect((screen.getByRole('textbox') as HTMLTextAreaElement).value).toContain(
+          "Linked entry 'entryA1' at position 0 (leftColumnFullHeightCard) has never been published and will not appear on the live site."
+        );
+      });
+      // Warnings do not block publishing even in block mode
+      expect(mockSdk.field.setInvalid).toHaveBeenLastCalledWith(false);
+
+      await act(async () => {
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }]);
+      });
+      await waitFor(() => {
+        expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(2);
+      });
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenLastCalledWith({ 'sys.id[in]': 'entryA1,entryB1,entryB2', limit: 3 });
+    });
+
+    it('should refetch linked entries when the layout checks their fields', async () => {
+      const titledConfig: ValidationConfig = {
+        ...bento12Config,
+        positions: {
+          ...bento12Config.positions,
+          leftColumnFullHeightCard: { index: 0, allowedTypes: ['CardTypeA'], fields: { title: { maxLength: 100 } } },
+        },
+      };
+      mockSdk.parameters.installation = { validationConfigs: [titledConfig] };
+
+      renderComponent();
+      await waitFor(() => expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(1));
+
+      // The same cards again, e.g. after one was edited in a slide-in
+      await act(async () => {
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }]);
+      });
+      await waitFor(() => {
+        expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it('should check field rules and fetch the images that asset rules inspect', async () => {
+      const heroConfig: ValidationConfig = {
+        ...bento12Config,
+        positions: {
+          ...bento12Config.positions,
+          leftColumnFullHeightCard: {
+            index: 0,
+            allowedTypes: ['CardTypeA'],
+            fields: { title: { maxLength: 10 }, heroImage: { required: true, asset: { minWidth: 1200 } } },
+          },
+        },
+      };
+      mockSdk.parameters.installation = { validationConfigs: [heroConfig] };
+      mockLinkedEntries(
+        {
+          ...entryA1,
+          fields: {
+            title: { 'en-US': 'Spring sale', 'de-DE': 'Frühling' },
+            heroImage: { 'en-US': { sys: { type: 'Link', linkType: 'Asset', id: 'image1' } } },
+          },
+        },
+        entryB1,
+        entryB2
+      );
+      mockSdk._mockSpaceGetAssets.mockResolvedValue({
+        items: [{ sys: { id: 'image1', type: 'Asset' }, fields: { file: { 'en-US': { details: { image: { width: 800, height: 600 } } } } } }],
+      });
+
+      renderComponent();
+
+      await waitFor(() => {
+        const errorTextarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+        expect(errorTextarea.value).toContain(
+          "Field 'title' of the card at position 0 (leftColumnFullHeightCard) has 11 characters, but at most 10 are allowed."
+        );
+        expect(errorTextarea.value).toContain(
+          "Image in field 'heroImage' of the card at position 0 (leftColumnFullHeightCard) is 800x600 px, but must be at least 1200 px wide."
+        );
+      });
+      expect(mockSdk._mockSpaceGetAssets).toHaveBeenCalledWith({ 'sys.id[in]': 'image1', limit: 1 });
+    });
+
+    it('should validate the cards of a nested container and report errors with their path', async () => {
+      const columnConfig: ValidationConfig = {
+        layoutType: 'column',
+        targetContentType: 'CardTypeC',
+        validateField: ['items'],
+        positions: { cards: { index: 'rest', allowedTypes: ['CardTypeA'] } },
+        limits: { totalEntries: { max: 2 } },
+      };
+      const nestedConfig: ValidationConfig = {
+        ...bento12Config,
+        positions: {
+          ...bento12Config.positions,
+          rightColumnTopCard: {
+            index: 1,
+            allowedTypes: ['CardTypeB', 'CardTypeC'],
+            childLayout: { field: 'items', layoutType: 'column' },
+          },
+        },
+      };
+      mockSdk.parameters.installation = { validationConfigs: [nestedConfig, columnConfig] };
+      const column = {
+        ...createMockContentfulEntry('column1', 'CardTypeC'),
+        fields: { items: { 'en-US': [{ sys: { type: 'Link', linkType: 'Entry', id: 'entryB1' } }] } },
+      };
+      mockLinkedEntries(entryA1, column, entryB1, entryB2);
+      mockSdk._mockFieldGetValue.mockReturnValue([{ sys: { id: 'entryA1' } }, { sys: { id: 'column1' } }, { sys: { id: 'entryB2' } }]);
+
+      renderComponent();
+
+      await waitFor(() => {
+        expect((screen.getByRole('textbox') as HTMLTextAreaElement).value).toContain(
+          "rightColumnTopCard > items[0]: Invalid content type 'CardTypeB' at position 0 (cards). Allowed types: CardTypeA."
+        );
+      });
+      expect(mockSdk._mockSpaceGetEntries).toHaveBeenLastCalledWith({ 'sys.id[in]': 'entryB1', limit: 1 });
+    });
+
+    it('should discard a response that arrives after a newer value', async () => {
+      let resolveSlowQuery: (value: unknown) => void = () => {};
+      mockSdk._mockSpaceGetEntries.mockImplementationOnce(
+        () => new Promise((resolve) => { resolveSlowQuery = resolve; })
+      );
+      mockSdk._mockFieldGetValue.mockReturnValue([{ sys: { id: 'entryX1' } }]);
+
+      renderComponent();
+
+      // A valid value arrives while the first query is still pending
+      await act(async () => {
+        mockSdk._mockOnValueChanged([{ sys: { id: 'entryA1' } }, { sys: { id: 'entryB1' } }, { sys: { id: 'entryB2' } }]);
+      });
+      await waitFor(() => {
+        expect(mockSdk._mockSpaceGetEntries).toHaveBeenCalledTimes(2);
+      });
+      await waitFor(() => {
+        expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      });
+
+      await act(async () => {
+        resolveSlowQuery({ items: [entryX1] });
+      });
+
+      expect(screen.getByText('Bento layout validation passed.')).toBeInTheDocument();
+      expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
     });
   });
 });
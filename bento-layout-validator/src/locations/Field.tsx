@@ -1,121 +1,289 @@
-import React, { useEffect, useState } from 'react';
-import { Paragraph, Textarea } from '@contentful/f36-components';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Note, Paragraph, Subheading, Textarea } from '@contentful/f36-components';
 import { FieldAppSDK } from '@contentful/app-sdk';
 import { useSDK } from '@contentful/react-apps-toolkit';
-import { validateBentoLayout } from '../validators/bentoValidator';
-import { ValidationConfig, ValidationError } from '../types';
-import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { toValidationResult } from '../validators/bentoValidator';
+import {
+  AppInstallationParameters,
+  EnforcementMode,
+  EntryLink,
+  LinkedEntry,
+  ValidationConfig,
+  ValidationContext,
+  ValidationError,
+} from '../types';
+import { getLayoutFieldId } from '../utils/validationConfigs';
+import { createLinkedAssetResolver, createLinkedEntryResolver } from '../utils/linkedEntryResolver';
+import { getFieldLayouts, getLayoutFieldLocale, validateReferenceField } from '../utils/fieldValidation';
+import { getGridSlots, GridSlot } from '../utils/gridPreview';
+import BentoGridPreview from '../components/BentoGridPreview';
+import ReferenceEditor from '../components/ReferenceEditor';
+import OrderFix from '../components/OrderFix';
+import { getLayoutTypes, getNextAllowedTypes } from '../validators/positions';
+import { findValidOrder } from '../validators/autofix';
 
-// Allow tests to override config
-declare global {
-  interface Window { __TEST_VALIDATION_CONFIG__?: ValidationConfig; }
-}
+// Rapid value changes (e.g. while dragging cards around) are validated once they settle
+const VALUE_CHANGE_DEBOUNCE_MS = 300;
 
-// Define a sample configuration for now
-// In a real scenario, this would come from app config or content type settings
-const DEFAULT_CONFIG: ValidationConfig = {
-  layoutType: 'bento-1-2',
-  targetContentType: 'CardsContainer', // This should match the content type of the entry being edited
-  validateField: ['contentCards'], // This should match the field ID where this component is used
-  positions: {
-    leftColumnFullHeightCard: { index: 0, allowedTypes: ['cardTypeA'] },
-    rightColumnTopCard: { index: 1, allowedTypes: ['cardTypeB', 'cardTypeC'] },
-    rightColumnBottomCard: { index: 2, allowedTypes: ['cardTypeB'] },
-  },
-  limits: {
-    totalEntries: 3,
-    typeLimits: {
-      cardTypeA: 1,
-      cardTypeB: 2,
-      cardTypeC: 1,
-    },
-  },
+// Groups errors by their locale in the order they were reported, which puts the locale being edited first.
+// Errors without a locale form a single group.
+const groupErrorsByLocale = (errors: ValidationError[]): Array<[string | undefined, ValidationError[]]> => {
+  const groups = new Map<string | undefined, ValidationError[]>();
+  errors.forEach((error) => groups.set(error.locale, [...(groups.get(error.locale) ?? []), error]));
+  return Array.from(groups);
 };
 
-const getConfig = (): ValidationConfig => (typeof window !== 'undefined' && window.__TEST_VALIDATION_CONFIG__) || DEFAULT_CONFIG;
+interface LayoutPreview {
+  slots: GridSlot[];
+  columns?: number;
+  config?: ValidationConfig; // The layout the cards were validated against
+  fix?: ProposedOrder; // Set when reordering the cards would satisfy the layout
+}
+
+interface ProposedOrder {
+  links: EntryLink[];
+  slots: GridSlot[]; // The cards in their new order
+}
+
+const toEntryLink = (id: string): EntryLink => ({ sys: { type: 'Link', linkType: 'Entry', id } });
 
 const Field = () => {
   const sdk = useSDK<FieldAppSDK>();
   const [errors, setErrors] = useState<ValidationError[]>([]);
+  // Layout suggestion shown when no layout is explicitly chosen
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  // Whether publishing is blocked by an invalid layout in block mode
+  const [isBlocked, setIsBlocked] = useState(false);
+  // Tiles of the layout preview and the columns of the layout's grid, no tiles when the cards could not be
+  // validated against a layout
+  const [preview, setPreview] = useState<LayoutPreview>({ slots: [] });
+  // The cards as edited in this field. Kept in a ref as well, for changes made once a dialog closes.
+  const [links, setLinks] = useState<EntryLink[]>(() => sdk.field.getValue() || []);
+  const linksRef = useRef(links);
+  const [isDisabled, setIsDisabled] = useState(false);
+  const resolver = useMemo(() => createLinkedEntryResolver(sdk.space), [sdk.space]);
+  const assetResolver = useMemo(() => createLinkedAssetResolver(sdk.space), [sdk.space]);
+  // Id of the latest validation run, results of older runs are discarded when they arrive late
+  const latestRunRef = useRef(0);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
-  // Function to run validation
-  const runValidation = async (currentValue: any) => {
-    // Ensure the field is a multiple entries reference field
-    if (sdk.field.type !== 'Array' || sdk.field.items?.type !== 'Link' || sdk.field.items?.linkType !== 'Entry') {
-      // Not a reference field that we can validate for bento layout
-      // Or, we can show a message that this app only works on multi-entry reference fields
-      setErrors([{ message: "This validator is intended for multiple entry reference fields." }]);
-      return;
+  // Reports the errors and, for layouts in block mode, marks the field invalid so the entry cannot be published.
+  // Problems preventing validation (e.g. a missing configuration) never block, and leave nothing to preview.
+  const reportErrors = (
+    nextErrors: ValidationError[],
+    enforcement: EnforcementMode = 'warn',
+    nextPreview: LayoutPreview = { slots: [] }
+  ) => {
+    const blocked = enforcement === 'block' && !toValidationResult(nextErrors).isValid;
+    setErrors(nextErrors);
+    setPreview(nextPreview);
+    setIsBlocked(blocked);
+    sdk.field.setInvalid(blocked);
+  };
+
+  const scheduleValidation = (value: any) => {
+    clearTimeout(debounceTimerRef.current);
+    debounceTimerRef.current = setTimeout(() => runValidation(value), VALUE_CHANGE_DEBOUNCE_MS);
+  };
+
+  const showLinks = (nextLinks: EntryLink[]) => {
+    linksRef.current = nextLinks;
+    setLinks(nextLinks);
+  };
+
+  // Writes the cards edited here to the field and validates them
+  const updateLinks = (nextLinks: EntryLink[]) => {
+    showLinks(nextLinks);
+    if (nextLinks.length > 0) {
+      sdk.field.setValue(nextLinks);
+    } else {
+      sdk.field.removeValue();
+    }
+    scheduleValidation(nextLinks);
+  };
+
+  const addExistingEntries = async () => {
+    const contentTypes = getPickTypes();
+    const entries = await sdk.dialogs.selectMultipleEntries<{ sys: { id: string } }>({
+      locale: sdk.field.locale,
+      ...(contentTypes.length > 0 && { contentTypes }),
+    });
+    if (entries && entries.length > 0) {
+      updateLinks([...linksRef.current, ...entries.map((entry) => toEntryLink(entry.sys.id))]);
+    }
+  };
+
+  const createEntry = async (contentTypeId: string) => {
+    const { entity } = await sdk.navigator.openNewEntry(contentTypeId, { slideIn: { waitForClose: true } });
+    if (entity) {
+      updateLinks([...linksRef.current, toEntryLink(entity.sys.id)]);
     }
+  };
+
+  // The content types the field accepts, empty when it accepts any
+  const getFieldLinkTypes = (): string[] => {
+    const validations = sdk.field.type === 'Array' ? sdk.field.items?.validations ?? [] : [];
+    return validations.find((validation) => validation.linkContentType)?.linkContentType ?? [];
+  };
 
-    const linkedEntryIds: { sys: { id: string } }[] = currentValue || [];
+  // "Create new" offers the types of the next empty position, or the types the field accepts without a layout
+  const getCreateTypes = (): string[] =>
+    preview.config ? getNextAllowedTypes(preview.config, links.length) : getFieldLinkTypes();
+
+  // "Add existing" picks several cards at once, so it offers every type a layout of the field allows, whichever
+  // positions are still empty, or the types the field accepts without a layout
+  const getPickTypes = (): string[] => {
+    const layouts = getFieldLayouts(
+      sdk.parameters.installation as AppInstallationParameters,
+      sdk.contentType.sys.id,
+      sdk.field.id
+    );
+    return layouts.length > 0 ? Array.from(new Set(layouts.flatMap(getLayoutTypes))) : getFieldLinkTypes();
+  };
+
+  // A reordering of the cards that satisfies the layout, unless they are already in such an order or none exists
+  const proposeOrder = (
+    config: ValidationConfig,
+    currentLinks: EntryLink[],
+    entries: LinkedEntry[],
+    context: ValidationContext
+  ): ProposedOrder | undefined => {
+    const order = findValidOrder(config, entries, context);
+    if (!order || order.every((card, index) => card === index)) {
+      return undefined;
+    }
+    return {
+      links: order.map((card) => currentLinks[card]),
+      slots: getGridSlots(config, order.map((card) => entries[card]), [], context).filter((slot) => slot.entryId),
+    };
+  };
 
-    if (!linkedEntryIds || linkedEntryIds.length === 0) {
-      // Validate with empty array if no entries are linked yet
-      const result = validateBentoLayout(getConfig(), []);
-      setErrors(result.errors);
+  // Function to run validation
+  const runValidation = async (currentValue: any) => {
+    const runId = ++latestRunRef.current;
+    setSuggestion(null);
+
+    const report = await validateReferenceField(
+      {
+        fieldId: sdk.field.id,
+        fieldType: sdk.field,
+        locale: sdk.field.locale,
+        value: currentValue,
+        contentTypeId: sdk.contentType.sys.id,
+        entryId: sdk.ids.entry,
+        entryFields: sdk.entry.fields,
+        locales: sdk.locales,
+        installation: sdk.parameters.installation as AppInstallationParameters,
+      },
+      { resolver, assetResolver, isStale: () => runId !== latestRunRef.current }
+    );
+    // A newer value arrived while fetching, its run reports instead
+    if (!report) {
       return;
     }
 
-    try {
-      // Fetch the full linked entries.
-      // Note: sdk.space.getEntries() might be better if we need to fetch many entries
-      // and their content types are not directly available on the link objects.
-      // For simplicity, we'll assume for now that content type info might be part of the link
-      // or we might need to adjust `getContentTypeIdFromLink` or fetch full entries.
-      // The `EntryProps` from contentful-management might not be what `sdk.field.getValue()` returns directly for links.
-      // This part needs careful handling of how linked entries are fetched and what data they contain.
-
-      // Let's simulate fetching entries and their content types for now.
-      // This is a placeholder. In a real app, you'd use sdk.space.getEntries() or similar.
-      const fetchedEntries: EntryProps[] = await Promise.all(
-        linkedEntryIds.map(async (link) => {
-          // This is a simplified mock. `sdk.space.getEntry` would be the actual call.
-          // The `getContentTypeIdFromLink` function expects a certain structure.
-          // If `sdk.field.getValue()` returns links that don't have contentType info directly,
-          // we MUST fetch the full entry.
-          const entry = await sdk.space.getEntry<EntryProps>(link.sys.id);
-          return entry;
-        })
-      );
-
-      const result = validateBentoLayout(getConfig(), fetchedEntries);
-      setErrors(result.errors);
-
-    } catch (error) {
-      console.error("Error fetching linked entries:", error);
-      setErrors([{ message: "Error fetching linked entry details for validation." }]);
+    const { errors: layoutErrors, config, links: validatedLinks, entries, context } = report;
+    if (!config) {
+      reportErrors(layoutErrors);
+      return;
     }
+    // The preview shows the cards of the locale being edited
+    const previewErrors = layoutErrors.filter((error) => !error.locale || error.locale === sdk.field.locale);
+    reportErrors(layoutErrors, config.enforcement, {
+      slots: getGridSlots(config, entries, previewErrors, context),
+      columns: config.grid?.columns,
+      config,
+      fix: proposeOrder(config, validatedLinks, entries, context),
+    });
+    setSuggestion(report.suggestion ?? null);
   };
 
   useEffect(() => {
     // Run validation on initial load
     runValidation(sdk.field.getValue());
 
-    // Subscribe to field value changes
+    // Subscribe to field value changes, e.g. by another editor working on the same entry
     const unsubscribe = sdk.field.onValueChanged((value) => {
-      runValidation(value);
+      showLinks(value || []);
+      scheduleValidation(value);
     });
+    const unsubscribeDisabled = sdk.field.onIsDisabledChanged(setIsDisabled);
 
-    // Cleanup subscription on component unmount
-    return () => unsubscribe();
-  }, [sdk.field, sdk.space]); // Added sdk.space as a dependency due to its use in runValidation
+    // Re-validate when the discriminator field switches the layout
+    const candidates = getFieldLayouts(
+      sdk.parameters.installation as AppInstallationParameters,
+      sdk.contentType.sys.id,
+      sdk.field.id
+    );
+    const layoutFieldId = getLayoutFieldId(candidates);
+    const layoutField = layoutFieldId ? sdk.entry.fields[layoutFieldId] : undefined;
+    const unsubscribeLayout = layoutField
+      ? layoutField.onValueChanged(getLayoutFieldLocale(layoutField, sdk.field.locale, sdk.locales.default), () =>
+          scheduleValidation(sdk.field.getValue())
+        )
+      : () => {};
+
+    // Re-validate when the cards of another locale change, for layouts that validate every locale
+    const referenceField = sdk.entry.fields[sdk.field.id];
+    const unsubscribeLocales =
+      referenceField && candidates.some((config) => config.validateAllLocales)
+        ? referenceField.locales
+            .filter((locale) => locale !== sdk.field.locale)
+            .map((locale) => referenceField.onValueChanged(locale, () => scheduleValidation(sdk.field.getValue())))
+        : [];
+
+    // Cleanup subscriptions on component unmount
+    return () => {
+      clearTimeout(debounceTimerRef.current);
+      unsubscribe();
+      unsubscribeDisabled();
+      unsubscribeLayout();
+      unsubscribeLocales.forEach((unsubscribeLocale) => unsubscribeLocale());
+    };
+  }, [sdk.field, resolver, sdk.entry, sdk.parameters.installation]); // runValidation also depends on the resolver and the installation parameters
 
   // Adjusting layout for better visibility of errors
   return (
     <div>
-      <Paragraph>
-        Field: {sdk.field.id} (AppId: {sdk.ids.app})
-      </Paragraph>
-      {/* Default field editor can be rendered here if needed using sdk.field.set méthod */}
-      {/* For now, we'll just display validation errors */}
-      {errors.length > 0 && (
-        <Textarea
-          isReadOnly
-          value={errors.map((err) => `- ${err.message}`).join('\\n')}
-          style={{ marginTop: '10px', color: 'red', minHeight: '80px' }} // Basic styling for errors
-        />
+      <ReferenceEditor
+        links={links}
+        slots={preview.slots}
+        createTypes={getCreateTypes()}
+        isDisabled={isDisabled}
+        onChange={updateLinks}
+        onAddExisting={addExistingEntries}
+        onCreate={createEntry}
+        onOpen={(entryId) => sdk.navigator.openEntry(entryId, { slideIn: true })}
+      />
+      {isBlocked && (
+        <Note variant="negative" title="Publishing blocked" style={{ marginTop: '10px' }}>
+          This layout is enforced. Fix the errors below to publish the entry.
+        </Note>
+      )}
+      {preview.fix && !isDisabled && (
+        <OrderFix slots={preview.fix.slots} onApply={() => preview.fix && updateLinks(preview.fix.links)} />
+      )}
+      {suggestion && (
+        <Note variant="neutral" style={{ marginTop: '10px' }}>
+          {suggestion}
+        </Note>
       )}
+      <BentoGridPreview slots={preview.slots} columns={preview.columns} />
+      {groupErrorsByLocale(errors).map(([locale, localeErrors]) => (
+        <div key={locale ?? 'all-locales'}>
+          {locale && (
+            <Subheading marginTop="spacingS" marginBottom="none">
+              {locale}
+            </Subheading>
+          )}
+          <Textarea
+            isReadOnly
+            aria-label={locale ? `Validation errors for ${locale}` : 'Validation errors'}
+            value={localeErrors.map((err) => `- ${err.message}`).join('\n')}
+            style={{ marginTop: '10px', color: 'red', minHeight: '80px' }} // Basic styling for errors
+          />
+        </div>
+      ))}
       {errors.length === 0 && (
          <Paragraph style={{ marginTop: '10px', color: 'green' }}>
            Bento layout validation passed.
@@ -1,17 +1,216 @@
 import Page from './Page';
-import { render } from '@testing-library/react';
-import { mockCma, mockSdk } from '../../test/mocks';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { cards, createMockEntry, mockCma, mockSdk } from '../../test/mocks';
 import { vi } from 'vitest';
+import { ValidationConfig } from '../types';
 
 vi.mock('@contentful/react-apps-toolkit', () => ({
   useSDK: () => mockSdk,
   useCMA: () => mockCma,
 }));
 
+const heroLayout: ValidationConfig = {
+  layoutType: 'bento-hero',
+  targetContentType: 'CardsContainer',
+  validateField: ['cards'],
+  positions: {
+    hero: { index: 0, allowedTypes: ['CardTypeA'] },
+    side: { index: 1, allowedTypes: ['CardTypeB'] },
+  },
+  limits: { totalEntries: 2 },
+};
+
 describe('Page component', () => {
-  it('Component text exists', () => {
-    const { getByText } = render(<Page />);
+  const entries = [
+    createMockEntry('a1', 'CardTypeA'),
+    createMockEntry('b1', 'CardTypeB'),
+    createMockEntry('good', 'CardsContainer', { title: { 'en-US': 'Good' }, cards: cards('a1', 'b1') }),
+    createMockEntry('swapped', 'CardsContainer', { title: { 'en-US': 'Swapped' }, cards: cards('b1', 'a1') }),
+    createMockEntry('short', 'CardsContainer', { title: { 'en-US': 'Short' }, cards: cards('a1') }),
+  ];
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    mockSdk.parameters.installation = { validationConfigs: [heroLayout] };
+    vi.mocked(mockSdk.navigator.openEntry).mockClear();
+    mockCma.entry = {
+      getMany: vi.fn(async ({ query }: { query: { [key: string]: any } }) => {
+        const items = query['sys.id[in]']
+          ? entries.filter((entry) => query['sys.id[in]'].split(',').includes(entry.sys.id))
+          : entries.filter((entry) => entry.sys.contentType.sys.id === query.content_type);
+        return { items, total: items.length };
+      }),
+      get: vi.fn(async ({ entryId }: { entryId: string }) => entries.find((entry) => entry.sys.id === entryId)),
+      update: vi.fn(async (_params: { entryId: string }, entry: any) => entry),
+    };
+    mockCma.asset = { getMany: vi.fn(async () => ({ items: [], total: 0 })) };
+    mockCma.contentType = {
+      get: vi.fn(async () => ({
+        name: 'Cards container',
+        fields: [{ id: 'cards', name: 'Cards', type: 'Array', items: { type: 'Link', linkType: 'Entry' } }],
+      })),
+    };
+  });
+
+  it('should list the entries that do not pass their layouts', async () => {
+    render(<Page />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+
+    expect(await screen.findByText('2 of 3 entries do not pass their layouts.')).toBeInTheDocument();
+    const rows = within(screen.getByRole('table', { name: 'Non-compliant entries' })).getAllByRole('row').slice(1);
+    expect(rows.map((row) => within(row).getAllByRole('cell')[0].textContent)).toEqual(['Swapped', 'Short']);
+    expect(rows[0]).toHaveTextContent('2 errors, 0 warnings: TYPE_NOT_ALLOWED');
+    expect(mockCma.entry.getMany).toHaveBeenCalledWith({
+      query: expect.objectContaining({ content_type: 'CardsContainer', skip: 0, limit: 100 }),
+    });
+  });
+
+  it('should filter the list by error code and open an entry', async () => {
+    render(<Page />);
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+    await screen.findByRole('table', { name: 'Non-compliant entries' });
+
+    fireEvent.change(screen.getByLabelText('Error code'), { target: { value: 'TOTAL_MISMATCH' } });
+
+    const table = screen.getByRole('table', { name: 'Non-compliant entries' });
+    expect(within(table).queryByText('Swapped')).not.toBeInTheDocument();
+    fireEvent.click(within(table).getByRole('button', { name: 'Short' }));
+    expect(mockSdk.navigator.openEntry).toHaveBeenCalledWith('short');
+  });
+
+  it('should download the listed entries as a report', async () => {
+    const createObjectURL = vi.fn(() => 'blob:report');
+    URL.createObjectURL = createObjectURL;
+    URL.revokeObjectURL = vi.fn();
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+    render(<Page />);
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+    await screen.findByRole('table', { name: 'Non-compliant entries' });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download CSV' }));
+
+    expect(createObjectURL).toHaveBeenCalledWith(expect.objectContaining({ type: 'text/csv' }));
+    const link = click.mock.instances[0] as unknown as HTMLAnchorElement;
+    expect(link.href).toBe('blob:report');
+    expect(link.download).toMatch(/^layout-audit-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:report');
+  });
+
+  it('should review, apply and undo the card orders that fix the entries', async () => {
+    render(<Page />);
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+    await screen.findByRole('table', { name: 'Non-compliant entries' });
+    expect(screen.getByText('1 of the listed entries can be fixed by reordering their cards.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Fix card order…' }));
+
+    const rows = within(screen.getByRole('table', { name: 'Proposed card orders' })).getAllByRole('row').slice(1);
+    expect(within(rows[0]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['Swapped', 'cards', 'b1a1', 'a1b1']);
+    expect(mockCma.entry.update).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply 1 reorder' }));
+
+    expect(await screen.findByText(/Reordered the cards of 1 entry\./)).toBeInTheDocument();
+    expect(mockCma.entry.update).toHaveBeenCalledWith(
+      { entryId: 'swapped' },
+      expect.objectContaining({ fields: expect.objectContaining({ cards: cards('a1', 'b1') }) })
+    );
+    // The audit still holds the previous cards until it runs again
+    expect(screen.getByRole('button', { name: 'Fix card order…' })).toBeDisabled();
+
+    // The mock CMA does not store updates, so the entry still holds the cards the undo log restores
+    mockCma.entry.get.mockResolvedValueOnce({ ...entries[3], fields: { ...entries[3].fields, cards: cards('a1', 'b1') } });
+    fireEvent.click(screen.getByRole('button', { name: 'Undo reorder…' }));
+
+    const undoRows = within(screen.getByRole('table', { name: 'Card orders to restore' })).getAllByRole('row').slice(1);
+    expect(within(undoRows[0]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['Swapped', 'cards', 'a1b1', 'b1a1']);
+    expect(mockCma.entry.update).toHaveBeenCalledTimes(1);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Undo 1 reorder' }));
+
+    expect(await screen.findByText('Restored the previous card order of 1 entry.')).toBeInTheDocument();
+    expect(mockCma.entry.update).toHaveBeenLastCalledWith(
+      { entryId: 'swapped' },
+      expect.objectContaining({ fields: expect.objectContaining({ cards: cards('b1', 'a1') }) })
+    );
+    await waitFor(() => expect(screen.queryByRole('button', { name: 'Undo reorder…' })).not.toBeInTheDocument());
+  });
+
+  it('should propose a reorder again once the audit finds other cards in the entry', async () => {
+    render(<Page />);
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+    await screen.findByRole('table', { name: 'Non-compliant entries' });
+    fireEvent.click(screen.getByRole('button', { name: 'Fix card order…' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Apply 1 reorder' }));
+    await screen.findByText(/Reordered the cards of 1 entry\./);
+    expect(screen.getByRole('button', { name: 'Fix card order…' })).toBeDisabled();
+
+    // The cards of the entry were swapped for others since
+    const drifted = [
+      ...entries.filter((entry) => entry.sys.id !== 'swapped'),
+      createMockEntry('a2', 'CardTypeA'),
+      createMockEntry('b2', 'CardTypeB'),
+      createMockEntry('swapped', 'CardsContainer', { title: { 'en-US': 'Swapped' }, cards: cards('b2', 'a2') }),
+    ];
+    mockCma.entry.getMany.mockImplementation(async ({ query }: { query: { [key: string]: any } }) => {
+      const items = query['sys.id[in]']
+        ? drifted.filter((entry) => query['sys.id[in]'].split(',').includes(entry.sys.id))
+        : drifted.filter((entry) => entry.sys.contentType.sys.id === query.content_type);
+      return { items, total: items.length };
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit again' }));
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Fix card order…' })).toBeEnabled());
+    fireEvent.click(screen.getByRole('button', { name: 'Fix card order…' }));
+    const rows = within(screen.getByRole('table', { name: 'Proposed card orders' })).getAllByRole('row').slice(1);
+    expect(within(rows[0]).getAllByRole('cell').map((cell) => cell.textContent)).toEqual(['Swapped', 'cards', 'b2a2', 'a2b2']);
+  });
+
+  it('should keep the undo log whatever is listed and when the page is opened again', async () => {
+    const { unmount } = render(<Page />);
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+    await screen.findByRole('table', { name: 'Non-compliant entries' });
+    fireEvent.click(screen.getByRole('button', { name: 'Fix card order…' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Apply 1 reorder' }));
+    await screen.findByText(/Reordered the cards of 1 entry\./);
+
+    fireEvent.change(screen.getByLabelText('Publish status'), { target: { value: 'archived' } });
+
+    expect(screen.getByText('No entries match these filters.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Undo reorder…' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Download undo log' })).toBeInTheDocument();
+
+    unmount();
+    render(<Page />);
+
+    expect(screen.getByRole('button', { name: 'Undo reorder…' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Fix card order…' })).not.toBeInTheDocument();
+  });
+
+  it('should list the layouts whose content type could not be loaded', async () => {
+    mockSdk.parameters.installation = { validationConfigs: [heroLayout, { ...heroLayout, targetContentType: 'Deleted' }] };
+    mockCma.contentType.get.mockImplementation(async ({ contentTypeId }: { contentTypeId: string }) => {
+      if (contentTypeId === 'Deleted') {
+        throw new Error(JSON.stringify({ status: 404, message: 'The resource could not be found.' }));
+      }
+      return { name: 'Cards container', fields: [{ id: 'cards', name: 'Cards', type: 'Array', items: { type: 'Link', linkType: 'Entry' } }] };
+    });
+    render(<Page />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
+
+    expect(await screen.findByText('2 of 3 entries do not pass their layouts.')).toBeInTheDocument();
+    expect(screen.getByText("The entries of 'Deleted' were not audited: The resource could not be found.")).toBeInTheDocument();
+  });
+
+  it('should report a failed audit', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockCma.entry.getMany.mockRejectedValue(new Error('Rate limit exceeded'));
+    render(<Page />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Run audit' }));
 
-    expect(getByText('Hello Page Component (AppId: test-app)')).toBeInTheDocument();
+    expect(await screen.findByText('The audit could not fetch the entries of the environment. Try again later.')).toBeInTheDocument();
   });
 });
@@ -1,16 +1,249 @@
-import { Paragraph } from '@contentful/f36-components';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Button,
+  Flex,
+  FormControl,
+  Heading,
+  List,
+  ListItem,
+  Note,
+  Paragraph,
+  Select,
+  Spinner,
+  Text,
+} from '@contentful/f36-components';
 import { PageAppSDK } from '@contentful/app-sdk';
-import { /* useCMA, */ useSDK } from '@contentful/react-apps-toolkit';
+import { useCMA, useSDK } from '@contentful/react-apps-toolkit';
+import { AppInstallationParameters, EntryStatus } from '../types';
+import { getValidationConfigs } from '../utils/validationConfigs';
+import {
+  AuditApi,
+  AuditFilters,
+  AuditProgress,
+  AuditResult,
+  auditLayouts,
+  filterFindings,
+  toReportSubjects,
+} from '../utils/layoutAudit';
+import { toCsvReport, toJsonReport, toReportRecords } from '../utils/reportExport';
+import { downloadFile, getDatedFileName } from '../utils/download';
+import {
+  getUndoLogKey,
+  LinkFieldChange,
+  loadUndoLog,
+  ReorderApi,
+  saveUndoLog,
+  updateUndoLog,
+} from '../utils/bulkReorder';
+import AuditTable from '../components/AuditTable';
+import BulkReorder from '../components/BulkReorder';
 
+const ENTRY_STATUSES: EntryStatus[] = ['draft', 'changed', 'published', 'archived'];
+
+const REPORT_FORMATS = {
+  csv: { type: 'text/csv', serialize: toCsvReport },
+  json: { type: 'application/json', serialize: toJsonReport },
+};
+
+// Audits the layouts of every entry in the environment, the retroactive check of content authored before the
+// layouts were configured. Entries are scanned page by page through the CMA, the ones that do not pass are listed.
 const Page = () => {
   const sdk = useSDK<PageAppSDK>();
-  /*
-     To use the cma, inject it as follows.
-     If it is not needed, you can remove the next line.
-  */
-  // const cma = useCMA();
+  const cma = useCMA();
+  const [result, setResult] = useState<AuditResult | null>(null);
+  const [progress, setProgress] = useState<AuditProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  // Id of the latest audit, a new audit or leaving the page stops the one running
+  const latestRunRef = useRef(0);
+
+  const installation = sdk.parameters.installation as AppInstallationParameters;
+  const layoutTypes = useMemo(
+    () => Array.from(new Set(getValidationConfigs(installation).map((config) => config.layoutType))),
+    [installation]
+  );
+  const api = useMemo<AuditApi>(
+    () => ({
+      getEntries: (query) => cma.entry.getMany({ query }),
+      getAssets: (query) => cma.asset.getMany({ query }),
+      getContentType: (contentTypeId) => cma.contentType.get({ contentTypeId }),
+    }),
+    [cma]
+  );
+  const reorderApi = useMemo<ReorderApi>(
+    () => ({
+      getEntry: (entryId) => cma.entry.get({ entryId }),
+      updateEntry: (entry) => cma.entry.update({ entryId: entry.sys.id }, entry),
+    }),
+    [cma]
+  );
+
+  // The reorders applied and not undone, read back from the browser's storage as each entry is updated, so the
+  // undo log stays complete when the page is left while reorders are being applied
+  const undoLogKey = getUndoLogKey(sdk.ids.space, sdk.ids.environment);
+  const [undoLog, setUndoLog] = useState(() => loadUndoLog(window.localStorage, undoLogKey));
+  const recordChange = (change: LinkFieldChange, isUndo: boolean) => {
+    const nextUndoLog = updateUndoLog(loadUndoLog(window.localStorage, undoLogKey), change, isUndo);
+    setUndoLog(saveUndoLog(window.localStorage, undoLogKey, nextUndoLog));
+  };
+
+  // Stop a running audit when leaving the page
+  useEffect(
+    () => () => {
+      latestRunRef.current++;
+    },
+    []
+  );
+
+  const runAudit = async () => {
+    const runId = ++latestRunRef.current;
+    const isCancelled = () => runId !== latestRunRef.current;
+    setIsRunning(true);
+    setFailure(null);
+    setProgress(null);
+    try {
+      const nextResult = await auditLayouts(api, {
+        installation,
+        locales: sdk.locales,
+        onProgress: (nextProgress) => !isCancelled() && setProgress(nextProgress),
+        isCancelled,
+      });
+      if (!isCancelled()) {
+        setResult(nextResult);
+      }
+    } catch (error) {
+      console.error('Error auditing layouts:', error);
+      if (!isCancelled()) {
+        setFailure('The audit could not fetch the entries of the environment. Try again later.');
+      }
+    } finally {
+      if (!isCancelled()) {
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const openEntry = (entryId: string) => sdk.navigator.openEntry(entryId);
+  const errorCodes = result
+    ? Array.from(new Set(result.findings.flatMap((finding) => finding.report.errors.map((error) => error.code)))).sort()
+    : [];
+  const findings = useMemo(() => (result ? filterFindings(result.findings, filters) : []), [result, filters]);
+
+  // Exports the findings listed, so the report matches the filters
+  const exportReport = (format: keyof typeof REPORT_FORMATS) =>
+    downloadFile(
+      REPORT_FORMATS[format].serialize(toReportRecords(toReportSubjects(findings))),
+      REPORT_FORMATS[format].type,
+      getDatedFileName('layout-audit', format)
+    );
+
+  // A select option of "" stands for any value
+  const setFilter = (key: keyof AuditFilters) => (event: React.ChangeEvent<HTMLSelectElement>) =>
+    setFilters({ ...filters, [key]: event.target.value || undefined });
 
-  return <Paragraph>Hello Page Component (AppId: {sdk.ids.app})</Paragraph>;
+  return (
+    <Flex flexDirection="column" gap="spacingM" padding="spacingL">
+      <Heading marginBottom="none">Layout compliance audit</Heading>
+      <Paragraph marginBottom="none">
+        Validates the layout fields of every entry of the content types a layout targets, and lists the ones that do
+        not pass.
+      </Paragraph>
+      {layoutTypes.length === 0 ? (
+        <Note variant="neutral">No layouts are configured. Add them on the configuration screen of the app.</Note>
+      ) : (
+        <Flex alignItems="center" gap="spacingS">
+          <Button variant="primary" isLoading={isRunning} isDisabled={isRunning} onClick={runAudit}>
+            {result ? 'Run audit again' : 'Run audit'}
+          </Button>
+          {isRunning && (
+            <Flex alignItems="center" gap="spacingXs">
+              <Spinner size="small" />
+              <Text>
+                {progress
+                  ? `Scanned ${progress.scanned} of ${progress.total} entries of ${progress.contentTypeId}…`
+                  : 'Starting the audit…'}
+              </Text>
+            </Flex>
+          )}
+        </Flex>
+      )}
+      {failure && <Note variant="negative">{failure}</Note>}
+      {(result || undoLog.length > 0) && (
+        <BulkReorder findings={findings} api={reorderApi} undoLog={undoLog} onApplied={recordChange} />
+      )}
+      {result && (
+        <>
+          <Note variant={result.findings.length > 0 ? 'warning' : 'positive'}>
+            {result.findings.length > 0
+              ? `${new Set(result.findings.map((finding) => finding.entry.sys.id)).size} of ${result.scanned} entries do not pass their layouts.`
+              : `All ${result.scanned} entries pass their layouts.`}
+          </Note>
+          {result.configIssues.length > 0 && (
+            <Note variant="warning" title="Some layouts were not audited">
+              <List>
+                {result.configIssues.map((issue) => (
+                  <ListItem key={issue.path}>{issue.message}</ListItem>
+                ))}
+              </List>
+            </Note>
+          )}
+          {result.findings.length > 0 && (
+            <>
+              <Flex gap="spacingM" alignItems="flex-end">
+                <FormControl marginBottom="none">
+                  <FormControl.Label>Layout</FormControl.Label>
+                  <Select value={filters.layoutType ?? ''} onChange={setFilter('layoutType')}>
+                    <Select.Option value="">Any layout</Select.Option>
+                    {layoutTypes.map((layoutType) => (
+                      <Select.Option key={layoutType} value={layoutType}>
+                        {layoutType}
+                      </Select.Option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl marginBottom="none">
+                  <FormControl.Label>Error code</FormControl.Label>
+                  <Select value={filters.errorCode ?? ''} onChange={setFilter('errorCode')}>
+                    <Select.Option value="">Any error</Select.Option>
+                    {errorCodes.map((code) => (
+                      <Select.Option key={code} value={code}>
+                        {code}
+                      </Select.Option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl marginBottom="none">
+                  <FormControl.Label>Publish status</FormControl.Label>
+                  <Select value={filters.status ?? ''} onChange={setFilter('status')}>
+                    <Select.Option value="">Any status</Select.Option>
+                    {ENTRY_STATUSES.map((status) => (
+                      <Select.Option key={status} value={status}>
+                        {status}
+                      </Select.Option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Flex gap="spacingXs">
+                  <Button isDisabled={findings.length === 0} onClick={() => exportReport('csv')}>
+                    Download CSV
+                  </Button>
+                  <Button isDisabled={findings.length === 0} onClick={() => exportReport('json')}>
+                    Download JSON
+                  </Button>
+                </Flex>
+              </Flex>
+              {findings.length > 0 ? (
+                <AuditTable findings={findings} onOpenEntry={openEntry} />
+              ) : (
+                <Paragraph>No entries match these filters.</Paragraph>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </Flex>
+  );
 };
 
 export default Page;
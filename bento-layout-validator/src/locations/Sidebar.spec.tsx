@@ -1,17 +1,123 @@
 import Sidebar from './Sidebar';
-import { render } from '@testing-library/react';
-import { mockCma, mockSdk } from '../../test/mocks';
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { createMockEntry, createMockSdk, link } from '../../test/mocks';
 import { vi } from 'vitest';
+import { ValidationConfig } from '../types';
 
 vi.mock('@contentful/react-apps-toolkit', () => ({
   useSDK: () => mockSdk,
-  useCMA: () => mockCma,
 }));
 
+let mockSdk: any;
+
+// An entry field whose value changes can be triggered with change(), in any of its locales
+const entryField = (id: string, value: any) => {
+  const listeners: Array<() => void> = [];
+  return {
+    id,
+    locales: ['en-US', 'de-DE'],
+    getValue: vi.fn(() => value),
+    onValueChanged: vi.fn((_locale: string, callback: () => void) => {
+      listeners.push(callback);
+      return () => {};
+    }),
+    change: (nextValue: any) => {
+      value = nextValue;
+      listeners.forEach((listener) => listener());
+    },
+  };
+};
+
+const heroLayout: ValidationConfig = {
+  layoutType: 'bento-hero',
+  targetContentType: 'CardsContainer',
+  validateField: ['heroCards'],
+  positions: {
+    hero: { index: 0, allowedTypes: ['CardTypeA'] },
+    side: { index: 1, allowedTypes: ['CardTypeB'] },
+  },
+  limits: { totalEntries: 2 },
+};
+
 describe('Sidebar component', () => {
-  it('Component text exists', () => {
-    const { getByText } = render(<Sidebar />);
+  let heroCards: ReturnType<typeof entryField>;
+
+  beforeEach(() => {
+    heroCards = entryField('heroCards', [link('entryB1'), link('entryA1')]);
+    mockSdk = createMockSdk();
+    mockSdk.contentType = {
+      sys: { id: 'CardsContainer' },
+      name: 'Cards container',
+      fields: [{ id: 'heroCards', name: 'Hero cards', type: 'Array', items: { type: 'Link', linkType: 'Entry' } }],
+    };
+    mockSdk.entry.fields = { heroCards };
+    mockSdk.entry.publish = vi.fn().mockResolvedValue(undefined);
+    mockSdk.dialogs.openConfirm = vi.fn().mockResolvedValue(true);
+    mockSdk.parameters.installation = { validationConfigs: [heroLayout] };
+    const entries = [createMockEntry('entryA1', 'CardTypeA'), createMockEntry('entryB1', 'CardTypeB')];
+    mockSdk._mockSpaceGetEntries.mockImplementation((query: { 'sys.id[in]': string }) => {
+      const ids = query['sys.id[in]'].split(',');
+      return Promise.resolve({ items: entries.filter((entry) => ids.includes(entry.sys.id)) });
+    });
+  });
+
+  it('should show the status, layout and problem counts of each layout field', async () => {
+    render(<Sidebar />);
+
+    const field = await screen.findByRole('listitem', { name: 'Hero cards' });
+    expect(within(field).getByText('Failed')).toBeInTheDocument();
+    expect(within(field).getByText('bento-hero · 2 errors, 0 warnings')).toBeInTheDocument();
+  });
+
+  it('should publish anyway in warn mode once confirmed', async () => {
+    render(<Sidebar />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Publish anyway' }));
+
+    await waitFor(() => {
+      expect(mockSdk.entry.publish).toHaveBeenCalled();
+    });
+    expect(mockSdk.dialogs.openConfirm).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'The layouts of this entry report 2 errors, 0 warnings. Publish it anyway?' })
+    );
+    expect(mockSdk.notifier.success).toHaveBeenCalledWith('Entry published.');
+  });
+
+  it('should not publish when the confirmation is cancelled', async () => {
+    mockSdk.dialogs.openConfirm.mockResolvedValue(false);
+    render(<Sidebar />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Publish anyway' }));
+
+    await waitFor(() => {
+      expect(mockSdk.dialogs.openConfirm).toHaveBeenCalled();
+    });
+    expect(mockSdk.entry.publish).not.toHaveBeenCalled();
+  });
+
+  it('should not offer to publish anyway when an enforced layout fails', async () => {
+    mockSdk.parameters.installation = { validationConfigs: [{ ...heroLayout, enforcement: 'block' }] };
+    render(<Sidebar />);
+
+    expect(await screen.findByText('Publishing blocked')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Publish anyway' })).not.toBeInTheDocument();
+  });
+
+  it('should validate again when a layout field changes', async () => {
+    vi.useFakeTimers();
+    try {
+      render(<Sidebar />);
+      await act(() => vi.runAllTimersAsync());
+      expect(screen.getByText('Failed')).toBeInTheDocument();
+
+      act(() => heroCards.change([link('entryA1'), link('entryB1')]));
+      await act(() => vi.advanceTimersByTimeAsync(300));
 
-    expect(getByText('Hello Sidebar Component (AppId: test-app)')).toBeInTheDocument();
+      expect(screen.getByText('Passed')).toBeInTheDocument();
+      expect(screen.getByText('Ready to publish')).toBeInTheDocument();
+      expect(heroCards.onValueChanged).toHaveBeenCalledWith('de-DE', expect.any(Function));
+    } finally {
+      vi.useRealTimers();
+    }
   });
 });
@@ -1,16 +1,151 @@
-import { Paragraph } from '@contentful/f36-components';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button, Caption, Flex, List, ListItem, Note, Spinner, Text } from '@contentful/f36-components';
 import { SidebarAppSDK } from '@contentful/app-sdk';
-import { /* useCMA, */ useSDK } from '@contentful/react-apps-toolkit';
+import { useSDK } from '@contentful/react-apps-toolkit';
+import { AppInstallationParameters } from '../types';
+import {
+  countProblems,
+  EntryFieldReport,
+  formatProblemCounts,
+  getFieldLayouts,
+  getFieldStatus,
+  getLayoutFields,
+  validateEntryLayouts,
+} from '../utils/fieldValidation';
+import FieldStatusBadge from '../components/FieldStatusBadge';
 
+// Edits are validated once they settle, like in the Field
+const VALUE_CHANGE_DEBOUNCE_MS = 300;
+
+// Whether a field fails a layout that blocks publishing, see EnforcementMode
+const isBlocking = ({ report }: EntryFieldReport) =>
+  getFieldStatus(report) === 'failed' && report.config?.enforcement === 'block';
+
+// A compact status of the layout fields of the entry, and whether it is ready to publish.
+// Layouts in warn mode do not stop publishing, so the entry can be published anyway after confirming.
 const Sidebar = () => {
   const sdk = useSDK<SidebarAppSDK>();
-  /*
-     To use the cma, inject it as follows.
-     If it is not needed, you can remove the next line.
-  */
-  // const cma = useCMA();
+  const [reports, setReports] = useState<EntryFieldReport[] | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  // Id of the latest run, results of older runs are discarded when they arrive late
+  const latestRunRef = useRef(0);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const layoutFields = useMemo(() => getLayoutFields(sdk), [sdk.contentType, sdk.parameters.installation]);
+
+  const runValidation = async () => {
+    const runId = ++latestRunRef.current;
+    const nextReports = await validateEntryLayouts(sdk, layoutFields, () => runId !== latestRunRef.current);
+    if (nextReports) {
+      setReports(nextReports);
+    }
+  };
+
+  useEffect(() => {
+    sdk.window.startAutoResizer();
+    runValidation();
+
+    // Re-validate when the cards of a layout field change in any locale, or a discriminator field switches its layout
+    const scheduleValidation = () => {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = setTimeout(runValidation, VALUE_CHANGE_DEBOUNCE_MS);
+    };
+    const installation = sdk.parameters.installation as AppInstallationParameters;
+    const watchedFieldIds = new Set(
+      layoutFields.flatMap((field) => [
+        field.id,
+        ...getFieldLayouts(installation, sdk.contentType.sys.id, field.id).flatMap((config) =>
+          config.layoutField ? [config.layoutField] : []
+        ),
+      ])
+    );
+    const unsubscribes = Array.from(watchedFieldIds).flatMap((fieldId) => {
+      const entryField = sdk.entry.fields[fieldId];
+      return entryField ? entryField.locales.map((locale) => entryField.onValueChanged(locale, scheduleValidation)) : [];
+    });
+
+    return () => {
+      clearTimeout(debounceTimerRef.current);
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [sdk.entry, layoutFields]); // runValidation only reads the sdk and the layout fields
+
+  const publishAnyway = async (problems: string) => {
+    const confirmed = await sdk.dialogs.openConfirm({
+      title: 'Publish with layout problems?',
+      message: `The layouts of this entry report ${problems}. Publish it anyway?`,
+      confirmLabel: 'Publish anyway',
+      cancelLabel: 'Cancel',
+      intent: 'negative',
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      await sdk.entry.publish();
+      sdk.notifier.success('Entry published.');
+    } catch (error) {
+      console.error('Error publishing entry:', error);
+      sdk.notifier.error('The entry could not be published.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (layoutFields.length === 0) {
+    return <Caption>No layouts are configured for {sdk.contentType.name}.</Caption>;
+  }
+
+  if (reports === null) {
+    return (
+      <Flex alignItems="center" gap="spacingXs">
+        <Spinner size="small" />
+        <Caption>Validating layouts…</Caption>
+      </Flex>
+    );
+  }
+
+  const problems = formatProblemCounts(countProblems(reports.flatMap(({ report }) => report.errors)));
+  const hasProblems = reports.some(({ report }) => getFieldStatus(report) !== 'passed');
 
-  return <Paragraph>Hello Sidebar Component (AppId: {sdk.ids.app})</Paragraph>;
+  return (
+    <Flex flexDirection="column" gap="spacingS">
+      <List aria-label="Layout fields">
+        {reports.map(({ fieldId, name, report }) => (
+          <ListItem key={fieldId} aria-label={name}>
+            <Flex justifyContent="space-between" alignItems="center" gap="spacingXs">
+              <Text fontWeight="fontWeightDemiBold">{name}</Text>
+              <FieldStatusBadge status={getFieldStatus(report)} />
+            </Flex>
+            <Caption fontColor="gray600">
+              {report.config ? `${report.config.layoutType} · ` : ''}
+              {formatProblemCounts(countProblems(report.errors))}
+            </Caption>
+          </ListItem>
+        ))}
+      </List>
+      {reports.some(isBlocking) ? (
+        <Note variant="negative" title="Publishing blocked">
+          A layout that is enforced fails. Fix its errors to publish the entry.
+        </Note>
+      ) : hasProblems ? (
+        <Note variant="warning" title="Layout problems">
+          <Flex flexDirection="column" gap="spacingXs" alignItems="flex-start">
+            <Text>The layouts are not enforced, so the entry can still be published.</Text>
+            <Button variant="negative" size="small" isLoading={isPublishing} onClick={() => publishAnyway(problems)}>
+              Publish anyway
+            </Button>
+          </Flex>
+        </Note>
+      ) : (
+        <Note variant="positive" title="Ready to publish">
+          Every layout passes.
+        </Note>
+      )}
+    </Flex>
+  );
 };
 
 export default Sidebar;
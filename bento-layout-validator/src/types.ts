@@ -1,30 +1,214 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AssetProps } from 'contentful-management/dist/typings/entities/asset';
+
+// How an invalid layout is surfaced: 'warn' only reports the errors, 'block' also prevents publishing
+export type EnforcementMode = 'warn' | 'block';
+
+// Inclusive bounds for a count of entries. Either bound may be omitted.
+export interface CountRange {
+  min?: number;
+  max?: number;
+}
+
+// A count limit is either a plain number or a range
+export type CountLimit = number | CountRange;
+
+// Publish state of a linked entry, derived from its sys versions
+export type EntryStatus = 'draft' | 'changed' | 'published' | 'archived';
+
+// Severity with which cards in a given publish state are reported. States left out are not checked.
+export type EntryStatusRules = {
+  [status in Exclude<EntryStatus, 'published'>]?: Exclude<ValidationSeverity, 'info'>;
+};
+
+// Constraints on the image linked by a card's asset field. Dimensions are in pixels.
+export interface AssetRule {
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  aspectRatio?: number | string; // Width / height, either a number or "16:9"
+  aspectRatioTolerance?: number; // Allowed relative deviation from aspectRatio. Defaults to 0.01
+}
+
+// Constraints on a single field of the card at a position, checked for the locale being edited
+export interface FieldRule {
+  required?: boolean;
+  forbidden?: boolean; // The field must be empty
+  maxLength?: number;
+  regex?: string;
+  enum?: Array<string | number>;
+  asset?: AssetRule; // The field must link an existing asset, optionally an image matching these constraints
+}
+
+// Which cards a position applies to: a fixed index (negative ones count from the end, -1 is the last card),
+// "last", a range such as "1..5" or the open-ended "1..", or "rest" for every card no other position claims
+export type PositionIndex = number | string;
+
+// Rules for a single card slot, or for a group of slots when the index selects several cards
+export interface PositionRule {
+  index: PositionIndex;
+  allowedTypes?: string[]; // Required unless a pattern is given
+  pattern?: string[][]; // Allowed types per card, repeating, e.g. [["A"], ["B"]] for A, B, A, B
+  fields?: { [fieldId: string]: FieldRule };
+  childLayout?: ChildLayoutRule; // Validates the card as a container of its own
+  grid?: PositionGrid; // Where the card sits in the layout's grid. Only for fixed indexes
+}
+
+// The cells a card spans, 1-based like CSS grid lines. Spans default to 1.
+export interface GridPlacement {
+  row: number;
+  column: number;
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+// The placement of a position, optionally overridden per breakpoint of the layout's grid
+export interface PositionGrid extends GridPlacement {
+  breakpoints?: { [breakpoint: string]: GridPlacement };
+}
+
+// Size of a layout's grid. Rows are derived from the placements of the positions when omitted.
+export interface GridSize {
+  columns: number;
+  rows?: number;
+}
+
+// The grid a layout is drawn on, e.g. 2 columns on desktop and a single column on mobile via breakpoints
+export interface LayoutGrid extends GridSize {
+  breakpoints?: { [breakpoint: string]: GridSize };
+}
+
+// A card that is itself a container: its reference field `field` is validated against the layout `layoutType`
+export interface ChildLayoutRule {
+  field: string;
+  layoutType: string;
+}
+
 // Interface for the validation configuration
 export interface ValidationConfig {
   layoutType: string;
   targetContentType: string;
   validateField: string[]; // Changed to array as per README example
+  layoutField?: string; // Field on the container entry whose value selects the layout by layoutType
+  enforcement?: EnforcementMode; // Defaults to 'warn'
+  allowEmpty?: boolean; // Whether an empty reference field is valid regardless of the rules below. Defaults to false
+  validateAllLocales?: boolean; // Validate the field in every locale, not just the one being edited. Defaults to false
+  entryStatus?: EntryStatusRules; // Flags draft, changed or archived cards, which the live site does not render as authored
+  grid?: LayoutGrid; // Shape of the layout, which the positions are placed on
   positions: {
-    [key: string]: {
-      index: number;
-      allowedTypes: string[];
-    };
+    [key: string]: PositionRule;
   };
   limits: {
-    totalEntries: number;
+    totalEntries: CountLimit; // A number is an exact count
     typeLimits?: { // Made optional as it might not always be present
-      [key: string]: number;
+      [key: string]: CountLimit; // A number is a maximum count
     };
   };
 }
 
+// A link to an entry as stored in a reference field value
+export interface EntryLink {
+  sys: { id: string; type?: 'Link'; linkType?: 'Entry' };
+}
+
+// A card in a reference field: the resolved entry, or the bare link when the entry is deleted or inaccessible
+export type LinkedEntry = EntryProps | EntryLink;
+
+// A linked asset as seen by the validator, the bare link when the asset is deleted or inaccessible
+export type LinkedAsset = AssetProps | AssetLink;
+
+export interface AssetLink {
+  sys: { id: string; type?: 'Link'; linkType?: 'Asset' };
+}
+
+// What the field rules of a layout are evaluated against besides the cards themselves
+export interface ValidationContext {
+  locale?: string; // Locale whose field values are checked, the first available value when omitted
+  defaultLocale?: string; // Fallback for fields without a value in locale, e.g. fields that are not localized
+  assets?: { [assetId: string]: AssetProps }; // Resolved assets linked by the cards. Asset rules are skipped without them
+  layouts?: ValidationConfig[]; // Every configured layout, where the child layouts of nested containers are looked up
+  linkedEntries?: { [entryId: string]: LinkedEntry }; // Resolved cards of nested containers. Skipped without them
+  entryId?: string; // Id of the container entry itself, so a card linking back to it is reported as a cycle
+}
+
+// Parameters persisted by the ConfigScreen as the app installation parameters
+export interface AppInstallationParameters {
+  validationConfigs?: ValidationConfig[];
+}
+
+// A problem found in a ValidationConfig itself, addressed by a JSON pointer (e.g. "/positions/pos1/index")
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+// Stable identifiers for every problem the app can report. Messages are rendered from these codes.
+export type ValidationErrorCode =
+  // Layout rules checked by validateBentoLayout
+  | 'TOTAL_MISMATCH'
+  | 'TOTAL_BELOW_MIN'
+  | 'TOTAL_ABOVE_MAX'
+  | 'TYPE_NOT_ALLOWED'
+  | 'TYPE_LIMIT_EXCEEDED'
+  | 'TYPE_BELOW_MIN'
+  | 'MISSING_POSITION'
+  | 'UNKNOWN_CONTENT_TYPE'
+  // Linked entry checks
+  | 'ENTRY_NOT_FOUND'
+  | 'ENTRY_DRAFT'
+  | 'ENTRY_CHANGED'
+  | 'ENTRY_ARCHIVED'
+  // Field rules checked on the card at a position
+  | 'FIELD_REQUIRED'
+  | 'FIELD_FORBIDDEN'
+  | 'FIELD_TOO_LONG'
+  | 'FIELD_PATTERN_MISMATCH'
+  | 'FIELD_VALUE_NOT_ALLOWED'
+  | 'ASSET_NOT_FOUND'
+  | 'ASSET_NOT_IMAGE'
+  | 'ASSET_DIMENSIONS'
+  | 'ASSET_ASPECT_RATIO'
+  // Nested containers
+  | 'NESTING_CYCLE'
+  | 'NESTING_TOO_DEEP'
+  // Problems preventing validation in the app locations
+  | 'UNSUPPORTED_FIELD'
+  | 'LAYOUT_NOT_CONFIGURED'
+  | 'LAYOUT_FIELD_MISSING'
+  | 'UNKNOWN_LAYOUT'
+  | 'INVALID_CONFIG'
+  | 'FETCH_FAILED';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+// Values interpolated into the message of a code, e.g. the expected and actual counts
+export interface ValidationErrorParams {
+  [key: string]: string | number | string[] | undefined;
+}
+
 // Interface for a single validation error
 export interface ValidationError {
-  message: string;
-  // We can add more properties here later if needed, e.g., fieldId, severity
+  code: ValidationErrorCode;
+  severity: ValidationSeverity;
+  message: string; // Rendered from code and params, see validators/validationMessages.ts
+  positionKey?: string;
+  index?: number;
+  entryId?: string;
+  locale?: string; // Set when the layout validates every locale, see validateBentoLayoutForLocales
+  path?: string; // Where an error of a nested container sits, e.g. "rightColumnTopCard > items[1]"
+  params?: ValidationErrorParams;
 }
 
 // Interface for the overall validation result
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
+  locales?: { [locale: string]: ValidationResult }; // Results per locale when every locale is validated
+}
+
+// Outcome of validating linked entries against one of several candidate layouts
+export interface LayoutMatch {
+  config: ValidationConfig;
+  result: ValidationResult;
 }
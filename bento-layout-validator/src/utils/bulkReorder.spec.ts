@@ -0,0 +1,211 @@
+import { vi } from 'vitest';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import {
+  applyLinkChanges,
+  getUndoLogKey,
+  invertChange,
+  isApplied,
+  LinkFieldChange,
+  loadUndoLog,
+  MAX_RATE_LIMIT_RETRIES,
+  planReorders,
+  RATE_LIMIT_BASE_DELAY,
+  ReorderApi,
+  saveUndoLog,
+  updateUndoLog,
+} from './bulkReorder';
+import { AuditApi, auditLayouts } from './layoutAudit';
+import { ValidationConfig } from '../types';
+import { cards, createMockEntry, link } from '../../test/mocks';
+
+const heroLayout: ValidationConfig = {
+  layoutType: 'bento-hero',
+  targetContentType: 'CardsContainer',
+  validateField: ['cards'],
+  positions: {
+    hero: { index: 0, allowedTypes: ['CardTypeA'] },
+    side: { index: 1, allowedTypes: ['CardTypeB'] },
+  },
+  limits: { totalEntries: 2 },
+};
+
+const createMockAuditApi = (entries: EntryProps[]): AuditApi => ({
+  getEntries: async (query) => {
+    const items = query['sys.id[in]']
+      ? entries.filter((entry) => query['sys.id[in]'].split(',').includes(entry.sys.id))
+      : entries.filter((entry) => entry.sys.contentType.sys.id === query.content_type);
+    return { items, total: items.length };
+  },
+  getAssets: async () => ({ items: [] }),
+  getContentType: async () => ({
+    name: 'Cards container',
+    fields: [{ id: 'cards', name: 'Cards', type: 'Array', items: { type: 'Link', linkType: 'Entry' } }] as any,
+  }),
+});
+
+// A CMA holding the entries in memory, updates replacing them
+const createMockReorderApi = (entries: EntryProps[]) => {
+  const stored = new Map(entries.map((entry) => [entry.sys.id, entry]));
+  const api: ReorderApi = {
+    getEntry: vi.fn(async (entryId: string) => stored.get(entryId) as EntryProps),
+    updateEntry: vi.fn(async (entry: EntryProps) => {
+      stored.set(entry.sys.id, entry);
+      return entry;
+    }),
+  };
+  return { api, stored };
+};
+
+const change = (entryId: string, from: string[], to: string[]): LinkFieldChange => ({
+  entryId,
+  title: entryId,
+  fieldId: 'cards',
+  locale: 'en-US',
+  from: from.map(link),
+  to: to.map(link),
+});
+
+const rateLimitError = () =>
+  Object.assign(new Error(JSON.stringify({ status: 429, statusText: 'Too Many Requests', message: 'Rate limit exceeded' })), {
+    name: 'RateLimitExceeded',
+  });
+
+describe('planReorders', () => {
+  it('should propose an order for the findings that reordering fixes', async () => {
+    const entries = [
+      createMockEntry('a1', 'CardTypeA', { title: { 'en-US': 'Card A' } }),
+      createMockEntry('b1', 'CardTypeB', { title: { 'en-US': 'Card B' } }),
+      createMockEntry('swapped', 'CardsContainer', { title: { 'en-US': 'Swapped' }, cards: cards('b1', 'a1') }),
+      createMockEntry('short', 'CardsContainer', { title: { 'en-US': 'Short' }, cards: cards('a1') }),
+    ];
+    const { findings } = await auditLayouts(createMockAuditApi(entries), {
+      installation: { validationConfigs: [heroLayout] },
+      locales: { default: 'en-US', available: ['en-US'] },
+    });
+
+    const plans = planReorders(findings);
+
+    expect(plans).toEqual([
+      expect.objectContaining({
+        entryId: 'swapped',
+        fieldId: 'cards',
+        locale: 'en-US',
+        from: [link('b1'), link('a1')],
+        to: [link('a1'), link('b1')],
+        cards: ['Card B', 'Card A'],
+        order: [1, 0],
+      }),
+    ]);
+  });
+});
+
+describe('applyLinkChanges', () => {
+  it('should update the cards of each entry and keep the other locales', async () => {
+    const { api, stored } = createMockReorderApi([
+      createMockEntry('entry1', 'CardsContainer', { cards: { 'en-US': [link('b1'), link('a1')], 'de-DE': [link('b1')] } }),
+    ]);
+    const progress = vi.fn();
+    const applied = vi.fn();
+
+    const result = await applyLinkChanges(api, [change('entry1', ['b1', 'a1'], ['a1', 'b1'])], {
+      onProgress: progress,
+      onApplied: applied,
+    });
+
+    expect(result).toEqual({ applied: [change('entry1', ['b1', 'a1'], ['a1', 'b1'])], failures: [] });
+    expect(applied).toHaveBeenCalledWith(change('entry1', ['b1', 'a1'], ['a1', 'b1']));
+    expect(stored.get('entry1')?.fields.cards).toEqual({ 'en-US': [link('a1'), link('b1')], 'de-DE': [link('b1')] });
+    expect(progress).toHaveBeenLastCalledWith({ done: 1, total: 1 });
+  });
+
+  it('should report each entry that could not be updated', async () => {
+    const { api } = createMockReorderApi([
+      createMockEntry('edited', 'CardsContainer', { cards: cards('b1', 'a1', 'c1') }),
+      createMockEntry('locked', 'CardsContainer', { cards: cards('b1', 'a1') }),
+      createMockEntry('entry3', 'CardsContainer', { cards: cards('b1', 'a1') }),
+    ]);
+    vi.mocked(api.updateEntry).mockImplementation(async (entry) => {
+      if (entry.sys.id === 'locked') {
+        throw new Error(JSON.stringify({ status: 409, statusText: 'Conflict', message: 'Version mismatch' }));
+      }
+      return entry;
+    });
+
+    const result = await applyLinkChanges(api, [
+      change('edited', ['b1', 'a1'], ['a1', 'b1']),
+      change('locked', ['b1', 'a1'], ['a1', 'b1']),
+      change('entry3', ['b1', 'a1'], ['a1', 'b1']),
+    ]);
+
+    expect(result.applied.map((applied) => applied.entryId)).toEqual(['entry3']);
+    expect(result.failures.map(({ change, message }) => [change.entryId, message])).toEqual([
+      ['edited', 'The cards were changed in the meantime.'],
+      ['locked', 'Version mismatch'],
+    ]);
+  });
+
+  it('should back off while the rate limit is exceeded', async () => {
+    const { api } = createMockReorderApi([createMockEntry('entry1', 'CardsContainer', { cards: cards('b1', 'a1') })]);
+    vi.mocked(api.updateEntry).mockRejectedValueOnce(rateLimitError()).mockRejectedValueOnce(rateLimitError());
+    const wait = vi.fn(async () => {});
+    const progress = vi.fn();
+
+    const result = await applyLinkChanges(api, [change('entry1', ['b1', 'a1'], ['a1', 'b1'])], { wait, onProgress: progress });
+
+    expect(result.applied.length).toBe(1);
+    expect(wait.mock.calls).toEqual([[RATE_LIMIT_BASE_DELAY], [RATE_LIMIT_BASE_DELAY * 2]]);
+    expect(progress).toHaveBeenCalledWith({ done: 0, total: 1, retryDelay: RATE_LIMIT_BASE_DELAY * 2 });
+  });
+
+  it('should give up on an entry once the retries are used up', async () => {
+    const { api } = createMockReorderApi([createMockEntry('entry1', 'CardsContainer', { cards: cards('b1', 'a1') })]);
+    vi.mocked(api.getEntry).mockRejectedValue(rateLimitError());
+    const wait = vi.fn(async () => {});
+
+    const result = await applyLinkChanges(api, [change('entry1', ['b1', 'a1'], ['a1', 'b1'])], { wait });
+
+    expect(wait).toHaveBeenCalledTimes(MAX_RATE_LIMIT_RETRIES);
+    expect(result.failures).toEqual([{ change: change('entry1', ['b1', 'a1'], ['a1', 'b1']), message: 'Rate limit exceeded' }]);
+  });
+
+  it('should restore the previous cards from the undo log', async () => {
+    const { api, stored } = createMockReorderApi([createMockEntry('entry1', 'CardsContainer', { cards: cards('b1', 'a1') })]);
+    const { applied } = await applyLinkChanges(api, [change('entry1', ['b1', 'a1'], ['a1', 'b1'])]);
+
+    await applyLinkChanges(api, applied.map(invertChange));
+
+    expect(stored.get('entry1')?.fields.cards).toEqual(cards('b1', 'a1'));
+  });
+});
+
+describe('undo log', () => {
+  it('should add applied reorders and drop the ones undone', () => {
+    const first = change('entry1', ['b1', 'a1'], ['a1', 'b1']);
+    const second = change('entry2', ['b1', 'a1'], ['a1', 'b1']);
+
+    const undoLog = updateUndoLog(updateUndoLog([], first, false), second, false);
+
+    expect(undoLog).toEqual([first, second]);
+    expect(updateUndoLog(undoLog, invertChange(first), true)).toEqual([second]);
+  });
+
+  it('should only hold back plans made from the cards a logged reorder replaced', () => {
+    const undoLog = [change('entry1', ['b1', 'a1'], ['a1', 'b1'])];
+
+    expect(isApplied(undoLog, change('entry1', ['b1', 'a1'], ['a1', 'b1']))).toBe(true);
+    expect(isApplied(undoLog, change('entry1', ['b2', 'a2'], ['a2', 'b2']))).toBe(false);
+    expect(isApplied(undoLog, change('entry2', ['b1', 'a1'], ['a1', 'b1']))).toBe(false);
+  });
+
+  it('should keep the undo log of each environment in the storage', () => {
+    const key = getUndoLogKey('space', 'master');
+    const undoLog = [change('entry1', ['b1', 'a1'], ['a1', 'b1'])];
+
+    saveUndoLog(window.localStorage, key, undoLog);
+
+    expect(loadUndoLog(window.localStorage, key)).toEqual(undoLog);
+    expect(loadUndoLog(window.localStorage, getUndoLogKey('space', 'staging'))).toEqual([]);
+    saveUndoLog(window.localStorage, key, []);
+    expect(window.localStorage.getItem(key)).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { EntryLink } from '../types';
+import { findValidOrder } from '../validators/autofix';
+import { getErrorMessage } from './errors';
+import { getEntryTitle } from './gridPreview';
+import { AuditFinding } from './layoutAudit';
+
+// Retries of a request the CMA turned down for the rate limit, waiting twice as long each time
+export const MAX_RATE_LIMIT_RETRIES = 5;
+export const RATE_LIMIT_BASE_DELAY = 1000;
+
+// The parts of the CMA that updating entries needs, e.g. backed by the plain client of useCMA
+export interface ReorderApi {
+  getEntry: (entryId: string) => Promise<EntryProps>;
+  updateEntry: (entry: EntryProps) => Promise<EntryProps>;
+}
+
+// A change of the cards of a layout field in one locale. Applied changes make up the undo log.
+export interface LinkFieldChange {
+  entryId: string;
+  title: string;
+  fieldId: string;
+  locale: string;
+  from: EntryLink[];
+  to: EntryLink[];
+}
+
+// A reordering that makes an entry's cards satisfy its layout, for review before it is applied
+export interface ReorderPlan extends LinkFieldChange {
+  cards: string[]; // Titles of the cards in their current order
+  order: number[]; // The current index of the card to put at each index, see findValidOrder
+}
+
+export interface ApplyProgress {
+  done: number;
+  total: number;
+  retryDelay?: number; // Set while waiting out the rate limit
+}
+
+export interface ApplyOptions {
+  onProgress?: (progress: ApplyProgress) => void;
+  onApplied?: (change: LinkFieldChange) => void; // Called as soon as an entry is updated, e.g. to record it for undo
+  isCancelled?: () => boolean; // Stops before the next entry
+  wait?: (ms: number) => Promise<void>;
+}
+
+export interface ChangeFailure {
+  change: LinkFieldChange;
+  message: string;
+}
+
+export interface ApplyResult {
+  applied: LinkFieldChange[];
+  failures: ChangeFailure[];
+}
+
+// Proposes a card order for each finding that reordering alone can fix. Findings whose cards are already in a
+// valid order, or that no order satisfies, e.g. with too few cards, get none. Only the audited locale is reordered.
+export const planReorders = (findings: AuditFinding[]): ReorderPlan[] =>
+  findings.flatMap(({ entry, title, fieldId, report }) => {
+    const { config, links, entries, context } = report;
+    const order = config && findValidOrder(config, entries, context);
+    if (!order || !context.locale || order.every((card, index) => card === index)) {
+      return [];
+    }
+    return [
+      {
+        entryId: entry.sys.id,
+        title,
+        fieldId,
+        locale: context.locale,
+        from: links,
+        to: order.map((card) => links[card]),
+        cards: entries.map((card) => getEntryTitle(card, context)),
+        order,
+      },
+    ];
+  });
+
+// The change that restores what another one replaced
+export const invertChange = (change: LinkFieldChange): LinkFieldChange => ({ ...change, from: change.to, to: change.from });
+
+const sameLinks = (a: EntryLink[], b: EntryLink[]): boolean =>
+  a.length === b.length && a.every((link, index) => link.sys.id === b[index].sys.id);
+
+const isSameField = (a: LinkFieldChange, b: LinkFieldChange): boolean => a.entryId === b.entryId && a.fieldId === b.fieldId;
+
+// The undo log once a change is applied: a reorder is added, undoing one removes the changes of that field
+export const updateUndoLog = (undoLog: LinkFieldChange[], change: LinkFieldChange, isUndo: boolean): LinkFieldChange[] =>
+  isUndo ? undoLog.filter((logged) => !isSameField(logged, change)) : [...undoLog, change];
+
+// Whether a plan starts from the cards a logged reorder replaced, i.e. it comes from an audit run before that
+// reorder was applied. Once the audit runs again on the reordered cards, or on cards edited since, it is a new plan.
+export const isApplied = (undoLog: LinkFieldChange[], plan: LinkFieldChange): boolean =>
+  undoLog.some((logged) => isSameField(logged, plan) && sameLinks(logged.from, plan.from));
+
+// The undo log is kept in the browser's storage per environment, so it outlives the page, e.g. when leaving it
+// while reorders are still being applied
+export const getUndoLogKey = (spaceId: string, environmentId: string): string =>
+  `bento-layout-validator:undo-log:${spaceId}:${environmentId}`;
+
+export const loadUndoLog = (storage: Storage, key: string): LinkFieldChange[] => {
+  try {
+    const undoLog = JSON.parse(storage.getItem(key) ?? '[]');
+    return Array.isArray(undoLog) ? undoLog : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveUndoLog = (storage: Storage, key: string, undoLog: LinkFieldChange[]): LinkFieldChange[] => {
+  if (undoLog.length > 0) {
+    storage.setItem(key, JSON.stringify(undoLog));
+  } else {
+    storage.removeItem(key);
+  }
+  return undoLog;
+};
+
+const isRateLimited = (error: unknown): boolean => {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'RateLimitExceeded' || (error as { status?: number }).status === 429) {
+    return true;
+  }
+  try {
+    return JSON.parse(error.message).status === 429;
+  } catch {
+    return false;
+  }
+};
+
+// Applies the changes one entry after another, so a large batch stays within the rate limit, and backs off when it
+// is hit anyway. An entry whose cards changed since the changes were planned is left alone. Each entry fails on its
+// own, the others are still updated. Updated entries are saved, not published.
+export const applyLinkChanges = async (
+  api: ReorderApi,
+  changes: LinkFieldChange[],
+  {
+    onProgress,
+    onApplied,
+    isCancelled = () => false,
+    wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  }: ApplyOptions = {}
+): Promise<ApplyResult> => {
+  const result: ApplyResult = { applied: [], failures: [] };
+
+  const withBackoff = async <T>(request: () => Promise<T>, done: number): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (!isRateLimited(error) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+        const retryDelay = RATE_LIMIT_BASE_DELAY * 2 ** attempt;
+        onProgress?.({ done, total: changes.length, retryDelay });
+        await wait(retryDelay);
+      }
+    }
+  };
+
+  for (const [done, change] of changes.entries()) {
+    if (isCancelled()) {
+      break;
+    }
+    onProgress?.({ done, total: changes.length });
+    try {
+      const entry = await withBackoff(() => api.getEntry(change.entryId), done);
+      const field = entry.fields[change.fieldId] ?? {};
+      if (!sameLinks(field[change.locale] ?? [], change.from)) {
+        throw new Error('The cards were changed in the meantime.');
+      }
+      await withBackoff(
+        () => api.updateEntry({ ...entry, fields: { ...entry.fields, [change.fieldId]: { ...field, [change.locale]: change.to } } }),
+        done
+      );
+      result.applied.push(change);
+      onApplied?.(change);
+    } catch (error) {
+      result.failures.push({ change, message: getErrorMessage(error) });
+    }
+  }
+
+  onProgress?.({ done: result.applied.length + result.failures.length, total: changes.length });
+  return result;
+};
@@ -0,0 +1,13 @@
+// Saves a file through a temporary link, e.g. a report of the audit
+export const downloadFile = (content: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// E.g. "layout-audit-2024-05-01.csv"
+export const getDatedFileName = (name: string, extension: string): string =>
+  `${name}-${new Date().toISOString().slice(0, 10)}.${extension}`;
@@ -0,0 +1,12 @@
+// The message of a CMA error, which carries the details of the response as JSON
+export const getErrorMessage = (error: unknown): string => {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  try {
+    const { message, statusText } = JSON.parse(error.message);
+    return message || statusText || error.name;
+  } catch {
+    return error.message || error.name;
+  }
+};
@@ -0,0 +1,336 @@
+import { ContentTypeField, EditorAppSDK, EntryFieldAPI, SidebarAppSDK } from '@contentful/app-sdk';
+import { AssetProps } from 'contentful-management/dist/typings/entities/asset';
+import {
+  AppInstallationParameters,
+  EntryLink,
+  LinkedEntry,
+  ValidationConfig,
+  ValidationContext,
+  ValidationError,
+  ValidationResult,
+} from '../types';
+import { validateBentoLayout, validateBentoLayoutForLocales } from '../validators/bentoValidator';
+import { lintValidationConfig } from '../validators/configValidator';
+import { getFittingLayouts, rankLayouts } from '../validators/layoutMatcher';
+import { createValidationError } from '../validators/validationMessages';
+import { getRuleAssetIds } from '../validators/fieldRules';
+import { findValidationConfigs, getLayoutFieldId, getValidationConfigs, selectLayoutConfig } from './validationConfigs';
+import {
+  createLinkedAssetResolver,
+  createLinkedEntryResolver,
+  LinkedAssetResolver,
+  LinkedEntryResolver,
+} from './linkedEntryResolver';
+import { resolveNestedEntries } from './nestedEntryResolver';
+
+// The part of an entry field the validation reads, satisfied by sdk.entry.fields and by fields of an entry read
+// from the CMA, see toEntryFields
+export type EntryFieldValues = Pick<EntryFieldAPI, 'locales' | 'getValue'>;
+
+// A reference field of an entry to validate, as seen by the location doing it
+export interface FieldValidationRequest {
+  fieldId: string;
+  fieldType: { type: string; items?: { type: string; linkType?: string } };
+  locale: string; // Locale being edited, layouts are matched on its cards
+  value: EntryLink[] | null | undefined; // The cards of the field in that locale
+  contentTypeId: string;
+  entryId?: string;
+  entryFields: { [fieldId: string]: EntryFieldValues }; // The fields of the entry, e.g. sdk.entry.fields
+  locales: { default: string; available: string[] };
+  installation: AppInstallationParameters | null | undefined;
+}
+
+export interface FieldValidationServices {
+  resolver: LinkedEntryResolver;
+  assetResolver: LinkedAssetResolver;
+  isStale?: () => boolean; // Whether a newer validation of the field started meanwhile
+}
+
+export interface FieldValidationReport {
+  errors: ValidationError[];
+  config?: ValidationConfig; // The layout in effect, unset when the cards could not be validated against one
+  links: EntryLink[]; // The cards of the locale being edited, as linked
+  entries: LinkedEntry[]; // The same cards, as fetched
+  context: ValidationContext;
+  suggestion?: string; // Which layouts the cards fit, when no layout is explicitly chosen
+}
+
+// The candidate layouts of a reference field
+export const getFieldLayouts = (
+  installation: AppInstallationParameters | null | undefined,
+  contentTypeId: string,
+  fieldId: string
+): ValidationConfig[] => findValidationConfigs(getValidationConfigs(installation), contentTypeId, fieldId);
+
+// The layout field may not be localized, in which case its value lives in the default locale
+export const getLayoutFieldLocale = (layoutField: EntryFieldValues, locale: string, defaultLocale: string): string =>
+  layoutField.locales.includes(locale) ? locale : defaultLocale;
+
+// The fields of an entry as fetched from the CMA, its values keyed by locale, in the shape of sdk.entry.fields
+export const toEntryFields = (fields: { [fieldId: string]: { [locale: string]: any } }): { [fieldId: string]: EntryFieldValues } =>
+  Object.fromEntries(
+    Object.entries(fields).map(([fieldId, values]) => [
+      fieldId,
+      { locales: Object.keys(values), getValue: (locale?: string) => (locale === undefined ? undefined : values[locale]) },
+    ])
+  );
+
+// Whether a field can hold a bento layout, i.e. references multiple entries
+export const isReferenceField = ({ type, items }: FieldValidationRequest['fieldType']): boolean =>
+  type === 'Array' && items?.type === 'Link' && items?.linkType === 'Entry';
+
+// The links of the reference field per locale, the locale being edited first.
+// A field that is not localized holds the same cards in every locale, whose localized fields may still differ.
+const getLinksByLocale = (request: FieldValidationRequest, allLocales: boolean): { [locale: string]: EntryLink[] } => {
+  const linksByLocale: { [locale: string]: EntryLink[] } = { [request.locale]: request.value || [] };
+  if (!allLocales) {
+    return linksByLocale;
+  }
+
+  const referenceField = request.entryFields[request.fieldId];
+  request.locales.available.forEach((locale) => {
+    if (!(locale in linksByLocale)) {
+      linksByLocale[locale] = referenceField?.locales.includes(locale)
+        ? referenceField.getValue(locale) || []
+        : request.value || [];
+    }
+  });
+  return linksByLocale;
+};
+
+// Whether a layout checks more than the content types of its cards: their publish state, fields, assets or the
+// cards of nested containers
+const readsCardContent = (config: ValidationConfig): boolean =>
+  Boolean(config.entryStatus) ||
+  Object.values(config.positions ?? {}).some((position) => position.fields || position.childLayout);
+
+// Validates the cards of a reference field against its layout: picks the layout (by the discriminator field or by
+// fit), fetches the cards, their nested containers and the assets the rules inspect, and reports every locale the
+// layout asks for. Resolves to null when a newer validation started while fetching, its report being outdated.
+export const validateReferenceField = async (
+  request: FieldValidationRequest,
+  { resolver, assetResolver, isStale = () => false }: FieldValidationServices
+): Promise<FieldValidationReport | null> => {
+  const links = request.value || [];
+  const context: ValidationContext = {
+    locale: request.locale,
+    defaultLocale: request.locales.default,
+    // Nested containers are checked against any configured layout, and must not link back to this entry
+    layouts: getValidationConfigs(request.installation),
+    entryId: request.entryId,
+  };
+  const problem = (error: ValidationError): FieldValidationReport => ({ errors: [error], links, entries: [], context });
+
+  if (!isReferenceField(request.fieldType)) {
+    return problem(createValidationError('UNSUPPORTED_FIELD'));
+  }
+
+  const candidates = getFieldLayouts(request.installation, request.contentTypeId, request.fieldId);
+  if (candidates.length === 0) {
+    return problem(createValidationError('LAYOUT_NOT_CONFIGURED'));
+  }
+
+  // When the discriminator field holds a value, it picks the layout.
+  // Otherwise every candidate layout is evaluated and the best fit is suggested.
+  let configs = candidates;
+  const layoutFieldId = getLayoutFieldId(candidates);
+  if (layoutFieldId) {
+    const layoutField = request.entryFields[layoutFieldId];
+    if (!layoutField) {
+      return problem(createValidationError('LAYOUT_FIELD_MISSING', { params: { layoutField: layoutFieldId } }));
+    }
+
+    const layoutValue = layoutField.getValue(getLayoutFieldLocale(layoutField, request.locale, request.locales.default));
+    if (layoutValue) {
+      const selectedConfig = selectLayoutConfig(candidates, layoutValue);
+      if (!selectedConfig) {
+        return problem(
+          createValidationError('UNKNOWN_LAYOUT', {
+            params: {
+              layoutType: String(layoutValue),
+              layoutField: layoutFieldId,
+              layoutTypes: candidates.map((candidate) => candidate.layoutType),
+            },
+          })
+        );
+      }
+      configs = [selectedConfig];
+    }
+  }
+
+  // Do not validate content against a broken layout, report the config problems instead
+  const configIssues = configs.flatMap((config) =>
+    lintValidationConfig(config).map((issue) =>
+      createValidationError('INVALID_CONFIG', {
+        params: { layoutType: config.layoutType, path: issue.path, issue: issue.message },
+      })
+    )
+  );
+  if (configIssues.length > 0) {
+    return { errors: configIssues, links, entries: [], context };
+  }
+
+  const linksByLocale = getLinksByLocale(request, configs.some((config) => config.validateAllLocales));
+  const locales = Object.keys(linksByLocale);
+  const allLinks = locales.flatMap((locale) => linksByLocale[locale]);
+  const entriesByLocale: { [locale: string]: LinkedEntry[] } = {};
+  locales.forEach((locale) => (entriesByLocale[locale] = []));
+
+  // Validate with empty array if no entries are linked yet
+  if (allLinks.length > 0) {
+    try {
+      // Fetch the full linked entries of all locales at once, the links held by the field carry no content type.
+      // Deleted or inaccessible cards come back as links and are reported one by one by the validator.
+      // Publish states and card content change during the session, e.g. a card fixed in a slide-in, so the cards are
+      // refetched whenever a layout checks them.
+      const resolveOptions = { refresh: configs.some(readsCardContent) };
+      const resolvedEntries = await resolver.resolve(allLinks, resolveOptions);
+      let offset = 0;
+      locales.forEach((locale) => {
+        entriesByLocale[locale] = resolvedEntries.slice(offset, offset + linksByLocale[locale].length);
+        offset += linksByLocale[locale].length;
+      });
+
+      // Fetch the cards of nested containers, e.g. the items of a card that is a bento of its own
+      for (const locale of locales) {
+        const localeContext = { ...context, locale };
+        const nestedEntries = await resolveNestedEntries(configs, entriesByLocale[locale], resolver, localeContext, resolveOptions);
+        context.linkedEntries = { ...context.linkedEntries, ...nestedEntries };
+      }
+
+      // Fetch the assets that asset rules inspect, e.g. the image of a card's heroImage field
+      const assetIds = locales.flatMap((locale) => getRuleAssetIds(configs, entriesByLocale[locale], { ...context, locale }));
+      if (assetIds.length > 0) {
+        const assets = await assetResolver.resolve(
+          assetIds.map((id) => ({ sys: { id } })),
+          { refresh: true } // Only asset rules fetch assets, and an image may be replaced during the session
+        );
+        // Deleted assets come back as links and are left out, the asset rules report them as missing
+        context.assets = Object.fromEntries(
+          assets.filter((asset): asset is AssetProps => 'fields' in asset).map((asset) => [asset.sys.id, asset])
+        );
+      }
+    } catch (error) {
+      if (isStale()) {
+        return null;
+      }
+      console.error("Error fetching linked entries:", error);
+      return problem(createValidationError('FETCH_FAILED'));
+    }
+
+    // A newer value arrived while fetching, its validation reports instead
+    if (isStale()) {
+      return null;
+    }
+  }
+
+  // Layouts are matched on the locale being edited. The layout in effect then reports every locale if it asks to.
+  const entries = entriesByLocale[request.locale];
+  const reportLayout = (config: ValidationConfig, result: ValidationResult, suggestion?: string): FieldValidationReport => {
+    const { errors } = config.validateAllLocales ? validateBentoLayoutForLocales(config, entriesByLocale, context) : result;
+    return { errors, config, links, entries, context, suggestion };
+  };
+
+  if (configs.length === 1) {
+    return reportLayout(configs[0], validateBentoLayout(configs[0], entries, context));
+  }
+
+  const matches = rankLayouts(configs, entries, context);
+  const fittingLayouts = getFittingLayouts(matches);
+  const chooseHint = layoutFieldId ? ` Set the field '${layoutFieldId}' to choose a layout.` : '';
+
+  if (fittingLayouts.length > 0) {
+    // The best fitting layout may still warn about some cards, e.g. unpublished ones
+    const [bestFit] = matches.filter((match) => match.result.isValid);
+    return reportLayout(
+      bestFit.config,
+      bestFit.result,
+      `These cards fit ${fittingLayouts.map((config) => config.layoutType).join(', ')}.${chooseHint}`
+    );
+  }
+
+  // Nothing fits, show the errors of the closest layout
+  const closest = matches[0];
+  const errorCount = countProblems(closest.result.errors).errors;
+  return reportLayout(
+    closest.config,
+    closest.result,
+    `No configured layout fits these cards. Closest is ${closest.config.layoutType} with ${errorCount} ${errorCount === 1 ? 'error' : 'errors'}.${chooseHint}`
+  );
+};
+
+export type FieldStatus = 'passed' | 'warnings' | 'failed';
+
+// How many of the reported problems are errors and how many warnings
+export const countProblems = (errors: ValidationError[]): { errors: number; warnings: number } => ({
+  errors: errors.filter((error) => error.severity === 'error').length,
+  warnings: errors.filter((error) => error.severity === 'warning').length,
+});
+
+// E.g. "2 errors, 1 warning"
+export const formatProblemCounts = ({ errors, warnings }: { errors: number; warnings: number }): string =>
+  `${errors} ${errors === 1 ? 'error' : 'errors'}, ${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`;
+
+// Whether a field passes its layout, a field that could not be validated failing
+export const getFieldStatus = (report: FieldValidationReport): FieldStatus => {
+  const counts = countProblems(report.errors);
+  if (counts.errors > 0 || !report.config) {
+    return 'failed';
+  }
+  return counts.warnings > 0 ? 'warnings' : 'passed';
+};
+
+// The locations that see the whole entry
+type EntrySDK = EditorAppSDK | SidebarAppSDK;
+
+// A layout field of an entry with its report
+export interface EntryFieldReport {
+  fieldId: string;
+  name: string;
+  report: FieldValidationReport;
+}
+
+// The fields of an entry's content type that have a layout configured, in the order of the content type
+export const getLayoutFields = (sdk: EntrySDK): ContentTypeField[] =>
+  sdk.contentType.fields.filter(
+    (field) =>
+      getFieldLayouts(sdk.parameters.installation as AppInstallationParameters, sdk.contentType.sys.id, field.id)
+        .length > 0
+  );
+
+// Validates the layout fields of an entry in its default locale, layouts validating every locale adding the others.
+// Cards are fetched anew on every call, so cards edited since the last one are picked up.
+// Resolves to null when a newer validation started meanwhile.
+export const validateEntryLayouts = async (
+  sdk: EntrySDK,
+  fields: ContentTypeField[],
+  isStale: () => boolean = () => false
+): Promise<EntryFieldReport[] | null> => {
+  const services = {
+    resolver: createLinkedEntryResolver(sdk.space),
+    assetResolver: createLinkedAssetResolver(sdk.space),
+    isStale,
+  };
+  const reports: EntryFieldReport[] = [];
+  for (const field of fields) {
+    const report = await validateReferenceField(
+      {
+        fieldId: field.id,
+        fieldType: field,
+        locale: sdk.locales.default,
+        value: sdk.entry.fields[field.id]?.getValue(sdk.locales.default),
+        contentTypeId: sdk.contentType.sys.id,
+        entryId: sdk.ids.entry,
+        entryFields: sdk.entry.fields,
+        locales: sdk.locales,
+        installation: sdk.parameters.installation as AppInstallationParameters,
+      },
+      services
+    );
+    if (!report) {
+      return null;
+    }
+    reports.push({ fieldId: field.id, name: field.name, report });
+  }
+  return isStale() ? null : reports;
+};
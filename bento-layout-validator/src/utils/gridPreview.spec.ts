@@ -0,0 +1,78 @@
+import { getEntryTitle, getGridSlots } from './gridPreview';
+import { createValidationError } from '../validators/validationMessages';
+import { ValidationConfig } from '../types';
+import { createMockEntry } from '../../test/mocks';
+
+describe('getEntryTitle', () => {
+  it('should use the first title-like field of the locale', () => {
+    const entry = createMockEntry('card1', 'CardTypeA', { name: { 'en-US': 'Name' }, title: { 'en-US': '', 'de-DE': 'Titel' } });
+    expect(getEntryTitle(entry, { locale: 'en-US' })).toBe('Name');
+    expect(getEntryTitle(entry, { locale: 'de-DE' })).toBe('Titel');
+  });
+
+  it('should fall back to the id', () => {
+    expect(getEntryTitle(createMockEntry('card1', 'CardTypeA'))).toBe('card1');
+    expect(getEntryTitle({ sys: { type: 'Link', linkType: 'Entry', id: 'deleted' } })).toBe('deleted');
+  });
+});
+
+describe('getGridSlots', () => {
+  const config: ValidationConfig = {
+    layoutType: 'bento-1-2',
+    targetContentType: 'CardsContainer',
+    validateField: ['contentCards'],
+    positions: {
+      left: { index: 0, allowedTypes: ['CardTypeA'] },
+      right: { index: 1, allowedTypes: ['CardTypeB'], childLayout: { field: 'items', layoutType: 'column' } },
+      bottom: { index: 2, allowedTypes: ['CardTypeB'] },
+    },
+    limits: { totalEntries: 3 },
+  };
+
+  it('should attach the errors of each card to its tile and add the empty positions', () => {
+    const entries = [createMockEntry('card1', 'CardTypeA', { title: { 'en-US': 'Hero' } }), createMockEntry('card2', 'CardTypeB')];
+    const errors = [
+      createValidationError('TOTAL_MISMATCH', { params: { expected: 3, actual: 2 } }),
+      createValidationError('ENTRY_CHANGED', { severity: 'warning', positionKey: 'left', index: 0, entryId: 'card1' }),
+      createValidationError('MISSING_POSITION', { positionKey: 'bottom', index: 2 }),
+      { ...createValidationError('TOTAL_MISMATCH', { params: { expected: 2, actual: 1 } }), path: 'right > items' },
+    ];
+
+    const slots = getGridSlots(config, entries, errors, { locale: 'en-US' });
+
+    expect(slots.map(({ positionKey, title, status }) => ({ positionKey, title, status }))).toEqual([
+      { positionKey: 'left', title: 'Hero', status: 'warning' },
+      { positionKey: 'right', title: 'card2', status: 'invalid' },
+      { positionKey: 'bottom', title: 'Empty', status: 'invalid' },
+    ]);
+    expect(slots[1]).toEqual(expect.objectContaining({ contentTypeId: 'CardTypeB', errors: [errors[3]] }));
+    expect(slots[2].entryId).toBeUndefined();
+  });
+
+  it('should show cards no position applies to', () => {
+    const entries = ['CardTypeA', 'CardTypeB', 'CardTypeB', 'CardTypeB'].map((type, i) => createMockEntry(`card${i}`, type));
+    const slots = getGridSlots(config, entries, []);
+    expect(slots.map((slot) => [slot.positionKey, slot.status])).toEqual([
+      ['left', 'valid'],
+      ['right', 'valid'],
+      ['bottom', 'valid'],
+      [undefined, 'valid'],
+    ]);
+  });
+
+  it('should place the tiles on the areas of their positions', () => {
+    const gridConfig: ValidationConfig = {
+      ...config,
+      grid: { columns: 2 },
+      positions: {
+        left: { index: 0, allowedTypes: ['CardTypeA'], grid: { row: 1, column: 1, rowSpan: 2 } },
+        right: { index: 1, allowedTypes: ['CardTypeB'], grid: { row: 1, column: 2 } },
+      },
+    };
+    const slots = getGridSlots(gridConfig, [createMockEntry('card1', 'CardTypeA')], []);
+    expect(slots.map((slot) => [slot.positionKey, slot.area])).toEqual([
+      ['left', { row: 1, column: 1, rowSpan: 2, colSpan: 1 }],
+      ['right', { row: 1, column: 2, rowSpan: 1, colSpan: 1 }],
+    ]);
+  });
+});
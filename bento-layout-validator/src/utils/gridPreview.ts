@@ -0,0 +1,103 @@
+import { EntryStatus, GridPlacement, LinkedEntry, ValidationConfig, ValidationContext, ValidationError } from '../types';
+import { getEntryStatus, isUnresolvedLink } from '../validators/entryStatus';
+import { getLocalizedValue } from '../validators/localizedValue';
+import { getGridPlacements } from '../validators/gridGeometry';
+import { resolvePositions } from '../validators/positions';
+
+export type GridSlotStatus = 'valid' | 'warning' | 'invalid';
+
+// A tile of the layout preview: a card, or a position still waiting for one
+export interface GridSlot {
+  index: number;
+  positionKey?: string; // Unset for a card no position applies to
+  entryId?: string; // Unset for an empty position
+  title: string;
+  contentTypeId?: string;
+  entryStatus?: EntryStatus; // Unset for an empty position or a card that could not be resolved
+  errors: ValidationError[];
+  status: GridSlotStatus;
+  area?: Required<GridPlacement>; // Cells of the position in the layout's grid, if it defines one
+}
+
+// Fields commonly used as an entry's display field, tried in order
+const TITLE_FIELDS = ['title', 'name', 'internalName', 'headline', 'heading'];
+
+// A readable name for a card, its first non-empty title-like field or else its id
+export const getEntryTitle = (entry: LinkedEntry, context: ValidationContext = {}): string => {
+  if (isUnresolvedLink(entry)) {
+    return entry.sys.id;
+  }
+  for (const fieldId of TITLE_FIELDS) {
+    const value = getLocalizedValue(entry.fields[fieldId], context);
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value;
+    }
+  }
+  return entry.sys.id;
+};
+
+const getSlotStatus = (errors: ValidationError[]): GridSlotStatus => {
+  if (errors.some((error) => error.severity === 'error')) {
+    return 'invalid';
+  }
+  return errors.some((error) => error.severity === 'warning') ? 'warning' : 'valid';
+};
+
+// Lays out the cards of a field as the tiles of the preview, in card order, followed by the positions that have no card.
+// Each tile carries the errors reported for its card. Errors of a nested container belong to the container's tile,
+// errors about the layout as a whole (e.g. the total count) to none.
+export const getGridSlots = (
+  config: ValidationConfig,
+  linkedEntries: LinkedEntry[],
+  errors: ValidationError[],
+  context: ValidationContext = {}
+): GridSlot[] => {
+  const positionsByIndex = new Map<number, { positionKey: string; hasChildLayout: boolean }>();
+  resolvePositions(config, linkedEntries.length).forEach(({ positionKey, index, rule }) => {
+    // With duplicate indexes, which the config linter reports, the first position wins
+    if (!positionsByIndex.has(index)) {
+      positionsByIndex.set(index, { positionKey, hasChildLayout: rule.childLayout !== undefined });
+    }
+  });
+
+  const areas = new Map(getGridPlacements(config).map(({ positionKey, placement }) => [positionKey, placement]));
+
+  const getSlotErrors = (index: number, positionKey: string | undefined, hasChildLayout: boolean) =>
+    errors.filter((error) =>
+      error.path === undefined
+        ? error.index === index
+        : hasChildLayout && error.path.split(' > ')[0] === positionKey
+    );
+
+  const cardSlots = linkedEntries.map((entry, index): GridSlot => {
+    const { positionKey, hasChildLayout = false } = positionsByIndex.get(index) ?? {};
+    const slotErrors = getSlotErrors(index, positionKey, hasChildLayout);
+    return {
+      index,
+      positionKey,
+      entryId: entry.sys.id,
+      title: getEntryTitle(entry, context),
+      contentTypeId: isUnresolvedLink(entry) ? undefined : entry.sys.contentType?.sys?.id,
+      entryStatus: isUnresolvedLink(entry) ? undefined : getEntryStatus(entry),
+      errors: slotErrors,
+      status: getSlotStatus(slotErrors),
+      area: positionKey === undefined ? undefined : areas.get(positionKey),
+    };
+  });
+
+  const emptySlots = Array.from(positionsByIndex)
+    .filter(([index]) => index < 0 || index >= linkedEntries.length)
+    .map(([index, { positionKey }]): GridSlot => {
+      const slotErrors = getSlotErrors(index, positionKey, false);
+      return {
+        index,
+        positionKey,
+        title: 'Empty',
+        errors: slotErrors,
+        status: getSlotStatus(slotErrors),
+        area: areas.get(positionKey),
+      };
+    });
+
+  return [...cardSlots, ...emptySlots];
+};
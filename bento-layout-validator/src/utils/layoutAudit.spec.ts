@@ -0,0 +1,137 @@
+import { vi } from 'vitest';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AUDIT_PAGE_SIZE, AuditApi, auditLayouts, fetchAllEntries, filterFindings } from './layoutAudit';
+import { ValidationConfig } from '../types';
+import { cards, createMockEntry } from '../../test/mocks';
+
+const heroLayout: ValidationConfig = {
+  layoutType: 'bento-hero',
+  targetContentType: 'CardsContainer',
+  validateField: ['cards'],
+  positions: {
+    hero: { index: 0, allowedTypes: ['CardTypeA'] },
+    side: { index: 1, allowedTypes: ['CardTypeB'] },
+  },
+  limits: { totalEntries: 2 },
+};
+
+// A CMA serving the given entries, honouring content_type, skip and limit, and sys.id[in] for the cards
+const createMockApi = (entries: EntryProps[]): AuditApi => ({
+  getEntries: vi.fn(async (query: { [key: string]: any }) => {
+    if (query['sys.id[in]']) {
+      const ids = query['sys.id[in]'].split(',');
+      const items = entries.filter((entry) => ids.includes(entry.sys.id));
+      return { items, total: items.length };
+    }
+    const matching = entries.filter((entry) => entry.sys.contentType.sys.id === query.content_type);
+    return { items: matching.slice(query.skip, query.skip + query.limit), total: matching.length };
+  }),
+  getAssets: vi.fn(async () => ({ items: [] })),
+  getContentType: vi.fn(async () => ({
+    name: 'Cards container',
+    fields: [{ id: 'cards', name: 'Cards', type: 'Array', items: { type: 'Link', linkType: 'Entry' } }] as any,
+  })),
+});
+
+const locales = { default: 'en-US', available: ['en-US'] };
+
+describe('fetchAllEntries', () => {
+  it('should page through every entry of the content type', async () => {
+    const entries = Array.from({ length: AUDIT_PAGE_SIZE + 5 }, (_, i) => createMockEntry(`entry${i}`, 'CardsContainer'));
+    const api = createMockApi(entries);
+    const pages: number[] = [];
+
+    await fetchAllEntries(api, 'CardsContainer', (items) => void pages.push(items.length));
+
+    expect(pages).toEqual([AUDIT_PAGE_SIZE, 5]);
+    expect(api.getEntries).toHaveBeenLastCalledWith(
+      expect.objectContaining({ content_type: 'CardsContainer', skip: AUDIT_PAGE_SIZE, limit: AUDIT_PAGE_SIZE })
+    );
+  });
+
+  it('should stop once cancelled', async () => {
+    const entries = Array.from({ length: AUDIT_PAGE_SIZE * 3 }, (_, i) => createMockEntry(`entry${i}`, 'CardsContainer'));
+    const api = createMockApi(entries);
+    let cancelled = false;
+
+    await fetchAllEntries(api, 'CardsContainer', () => void (cancelled = true), () => cancelled);
+
+    expect(api.getEntries).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('auditLayouts', () => {
+  const entries = [
+    createMockEntry('a1', 'CardTypeA'),
+    createMockEntry('b1', 'CardTypeB'),
+    createMockEntry('good', 'CardsContainer', { title: { 'en-US': 'Good' }, cards: cards('a1', 'b1') }, { publishedVersion: 1, version: 2 }),
+    createMockEntry('swapped', 'CardsContainer', { title: { 'en-US': 'Swapped' }, cards: cards('b1', 'a1') }),
+    createMockEntry('empty', 'CardsContainer', { title: { 'en-US': 'Empty' } }, { publishedVersion: 1, version: 2 }),
+  ];
+
+  it('should report the entries whose layout fields do not pass', async () => {
+    const progress = vi.fn();
+    const result = await auditLayouts(createMockApi(entries), {
+      installation: { validationConfigs: [heroLayout] },
+      locales,
+      onProgress: progress,
+    });
+
+    expect(result.scanned).toBe(3);
+    expect(result.findings.map((finding) => [finding.title, finding.status, finding.fieldName])).toEqual([
+      ['Swapped', 'draft', 'Cards'],
+      ['Empty', 'published', 'Cards'],
+    ]);
+    expect(result.findings[0].report.errors.map((error) => error.code)).toEqual(['TYPE_NOT_ALLOWED', 'TYPE_NOT_ALLOWED']);
+    expect(progress).toHaveBeenCalledWith({ contentTypeId: 'CardsContainer', scanned: 3, total: 3 });
+  });
+
+  it('should report the fields that pass too when asked', async () => {
+    const result = await auditLayouts(createMockApi(entries), {
+      installation: { validationConfigs: [heroLayout] },
+      locales,
+      includePassing: true,
+    });
+
+    expect(result.findings.map((finding) => finding.title)).toEqual(['Good', 'Swapped', 'Empty']);
+  });
+
+  it('should fetch the cards of a page of entries in one batch', async () => {
+    const api = createMockApi(entries);
+    await auditLayouts(api, { installation: { validationConfigs: [heroLayout] }, locales });
+
+    const cardQueries = vi.mocked(api.getEntries).mock.calls.filter(([query]) => query['sys.id[in]']);
+    expect(cardQueries).toEqual([[{ 'sys.id[in]': 'a1,b1', limit: 2 }]]);
+  });
+
+  it('should report a content type that cannot be loaded and audit the others', async () => {
+    const api = createMockApi(entries);
+    vi.mocked(api.getContentType).mockRejectedValueOnce(
+      new Error(JSON.stringify({ status: 404, statusText: 'Not Found', message: 'The resource could not be found.' }))
+    );
+
+    const result = await auditLayouts(api, {
+      installation: { validationConfigs: [{ ...heroLayout, targetContentType: 'Deleted' }, heroLayout] },
+      locales,
+    });
+
+    expect(result.configIssues).toEqual([
+      { path: '/0/targetContentType', message: "The entries of 'Deleted' were not audited: The resource could not be found." },
+    ]);
+    expect(api.getContentType).toHaveBeenNthCalledWith(1, 'Deleted');
+    expect(result.scanned).toBe(3);
+    expect(result.findings.map((finding) => finding.title)).toEqual(['Swapped', 'Empty']);
+  });
+
+  it('should filter the findings by layout, error code and publish status', async () => {
+    const { findings } = await auditLayouts(createMockApi(entries), {
+      installation: { validationConfigs: [heroLayout] },
+      locales,
+    });
+
+    expect(filterFindings(findings, {}).length).toBe(2);
+    expect(filterFindings(findings, { errorCode: 'TOTAL_MISMATCH' }).map((finding) => finding.title)).toEqual(['Empty']);
+    expect(filterFindings(findings, { status: 'draft' }).map((finding) => finding.title)).toEqual(['Swapped']);
+    expect(filterFindings(findings, { layoutType: 'bento-other' })).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+import { ContentTypeField } from '@contentful/app-sdk';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AppInstallationParameters, ConfigIssue, EntryStatus } from '../types';
+import { toJsonPointer } from '../validators/configValidator';
+import { getEntryStatus } from '../validators/entryStatus';
+import { getErrorMessage } from './errors';
+import { FieldValidationReport, getFieldStatus, toEntryFields, validateReferenceField } from './fieldValidation';
+import { getEntryTitle } from './gridPreview';
+import {
+  AssetQueryApi,
+  createLinkedAssetResolver,
+  createLinkedEntryResolver,
+  LinkedAssetResolver,
+  LinkedEntryResolver,
+} from './linkedEntryResolver';
+import { ReportSubject } from './reportExport';
+import { ResultSubject } from '../validators/resultFormatters';
+import { getValidationConfigs } from './validationConfigs';
+
+// Entries fetched per request while scanning a content type, the CMA page size limit
+export const AUDIT_PAGE_SIZE = 100;
+
+type Query = { [key: string]: any };
+
+// The parts of a content type the audit reads
+export interface AuditContentType {
+  name: string;
+  fields: ContentTypeField[];
+}
+
+// The parts of the CMA the audit needs, e.g. backed by the plain client of useCMA
+export interface AuditApi extends AssetQueryApi {
+  getEntries: (query: Query) => Promise<{ items: EntryProps[]; total: number }>;
+  getContentType: (contentTypeId: string) => Promise<AuditContentType>;
+}
+
+// A layout field of an entry that does not pass its layout, or any layout field with includePassing
+export interface AuditFinding {
+  entry: EntryProps;
+  title: string;
+  contentTypeId: string;
+  fieldId: string;
+  fieldName: string;
+  status: EntryStatus;
+  report: FieldValidationReport;
+}
+
+export interface AuditProgress {
+  contentTypeId: string;
+  scanned: number; // Entries of the content type scanned so far
+  total: number;
+}
+
+export interface AuditResult {
+  findings: AuditFinding[];
+  scanned: number; // Entries scanned across all content types
+  configIssues: ConfigIssue[]; // Layouts whose entries could not be scanned, e.g. targeting a deleted content type
+}
+
+export interface AuditOptions {
+  installation: AppInstallationParameters | null | undefined;
+  locales: { default: string; available: string[] };
+  onProgress?: (progress: AuditProgress) => void;
+  isCancelled?: () => boolean; // Stops the scan after the current page
+  includePassing?: boolean; // Reports the fields that pass too, e.g. to list every check in a test report
+}
+
+// Fetches every entry of a content type, page by page in a stable order
+export const fetchAllEntries = async (
+  api: Pick<AuditApi, 'getEntries'>,
+  contentTypeId: string,
+  onPage?: (entries: EntryProps[], total: number) => void | Promise<void>,
+  isCancelled: () => boolean = () => false
+): Promise<void> => {
+  for (let skip = 0; !isCancelled(); skip += AUDIT_PAGE_SIZE) {
+    const { items, total } = await api.getEntries({
+      content_type: contentTypeId,
+      skip,
+      limit: AUDIT_PAGE_SIZE,
+      order: 'sys.createdAt',
+    });
+    await onPage?.(items, total);
+    if (items.length < AUDIT_PAGE_SIZE || skip + items.length >= total) {
+      return;
+    }
+  }
+};
+
+// The cards of each page of entries are fetched up front in one batch and then reused as is, like the assets they
+// link: the audit is a snapshot, refetching them for the rules of every entry would only repeat the same queries
+const createSnapshotResolvers = (api: AuditApi): { resolver: LinkedEntryResolver; assetResolver: LinkedAssetResolver } => {
+  const resolver = createLinkedEntryResolver(api);
+  const assetResolver = createLinkedAssetResolver(api);
+  return {
+    resolver: { resolve: (links) => resolver.resolve(links) },
+    assetResolver: { resolve: (links) => assetResolver.resolve(links) },
+  };
+};
+
+// Scans every entry of each targetContentType and validates its layout fields like the Field does, in the default
+// locale. Reports the fields that do not pass, errors or warnings alike, unless includePassing asks for every field.
+export const auditLayouts = async (api: AuditApi, options: AuditOptions): Promise<AuditResult> => {
+  const { installation, locales, onProgress, isCancelled, includePassing = false } = options;
+  const configs = getValidationConfigs(installation);
+  const { resolver, assetResolver } = createSnapshotResolvers(api);
+  const findings: AuditFinding[] = [];
+  const configIssues: ConfigIssue[] = [];
+  let scanned = 0;
+
+  // The layout fields of each targetContentType
+  const fieldsByContentType = new Map<string, Set<string>>();
+  configs.forEach((config) => {
+    const fieldIds = fieldsByContentType.get(config.targetContentType) ?? new Set<string>();
+    (config.validateField ?? []).forEach((fieldId) => fieldIds.add(fieldId));
+    fieldsByContentType.set(config.targetContentType, fieldIds);
+  });
+
+  for (const [contentTypeId, fieldIds] of Array.from(fieldsByContentType)) {
+    // A deleted or misspelled content type is reported at the first layout targeting it, the others are still scanned
+    let contentType: AuditContentType;
+    try {
+      contentType = await api.getContentType(contentTypeId);
+    } catch (error) {
+      configIssues.push({
+        path: toJsonPointer(
+          configs.findIndex((config) => config.targetContentType === contentTypeId),
+          'targetContentType'
+        ),
+        message: `The entries of '${contentTypeId}' were not audited: ${getErrorMessage(error)}`,
+      });
+      continue;
+    }
+    // A field named by a layout but missing from the content type is left to the config linter
+    const fields = contentType.fields.filter((field) => fieldIds.has(field.id));
+    let contentTypeScanned = 0;
+
+    await fetchAllEntries(
+      api,
+      contentTypeId,
+      async (entries, total) => {
+        const pageLinks = entries.flatMap((entry) =>
+          fields.flatMap((field) => (entry.fields[field.id]?.[locales.default] as { sys: { id: string } }[]) ?? [])
+        );
+        if (pageLinks.length > 0) {
+          await resolver.resolve(pageLinks);
+        }
+
+        for (const entry of entries) {
+          const entryFields = toEntryFields(entry.fields);
+          for (const field of fields) {
+            const report = await validateReferenceField(
+              {
+                fieldId: field.id,
+                fieldType: field,
+                locale: locales.default,
+                value: entryFields[field.id]?.getValue(locales.default),
+                contentTypeId,
+                entryId: entry.sys.id,
+                entryFields,
+                locales,
+                installation,
+              },
+              { resolver, assetResolver }
+            );
+            if (report && (includePassing || getFieldStatus(report) !== 'passed')) {
+              findings.push({
+                entry,
+                title: getEntryTitle(entry, { locale: locales.default, defaultLocale: locales.default }),
+                contentTypeId,
+                fieldId: field.id,
+                fieldName: field.name,
+                status: getEntryStatus(entry),
+                report,
+              });
+            }
+          }
+        }
+
+        contentTypeScanned += entries.length;
+        scanned += entries.length;
+        onProgress?.({ contentTypeId, scanned: contentTypeScanned, total });
+      },
+      isCancelled
+    );
+  }
+
+  return { findings, scanned, configIssues };
+};
+
+// What the audit list can be narrowed down to, unset meaning any
+export interface AuditFilters {
+  layoutType?: string;
+  errorCode?: string;
+  status?: EntryStatus;
+}
+
+// Narrows the findings down to a layout, an error code and a publish state of the entry
+export const filterFindings = (findings: AuditFinding[], { layoutType, errorCode, status }: AuditFilters): AuditFinding[] =>
+  findings.filter(
+    (finding) =>
+      (layoutType === undefined || finding.report.config?.layoutType === layoutType) &&
+      (errorCode === undefined || finding.report.errors.some((error) => error.code === errorCode)) &&
+      (status === undefined || finding.status === status)
+  );
+
+// The findings as the subjects of an exported report, one per entry and layout field
+export const toReportSubjects = (findings: AuditFinding[]): ReportSubject[] =>
+  findings.map(({ entry, title, contentTypeId, report }) => ({
+    entryId: entry.sys.id,
+    title,
+    contentType: contentTypeId,
+    layoutType: report.config?.layoutType,
+    locale: report.context.locale ?? '',
+    errors: report.errors,
+    lastUpdatedBy: entry.sys.updatedBy?.sys.id,
+  }));
+
+// The findings as the subjects of a JUnit or SARIF report, a field that could not be validated being invalid
+export const toResultSubjects = (findings: AuditFinding[]): ResultSubject[] =>
+  findings.map(({ entry, title, contentTypeId, fieldId, report }) => ({
+    entryId: entry.sys.id,
+    title,
+    contentType: contentTypeId,
+    fieldId,
+    layoutType: report.config?.layoutType,
+    result: { isValid: getFieldStatus(report) !== 'failed', errors: report.errors },
+  }));
@@ -0,0 +1,82 @@
+import { vi } from 'vitest';
+import { createLinkedAssetResolver, createLinkedEntryResolver } from './linkedEntryResolver';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { assetLink, createMockEntry, link } from '../../test/mocks';
+
+// Mimics sdk.space.getEntries serving the given entries, honouring the sys.id[in] filter
+const createSpace = (entries: EntryProps[]) => ({
+  getEntries: vi.fn((query: { [key: string]: any }) => {
+    const ids: string[] = query['sys.id[in]'].split(',');
+    return Promise.resolve({ items: entries.filter((entry) => ids.includes(entry.sys.id)) });
+  }),
+});
+
+describe('createLinkedEntryResolver', () => {
+  const entryA = createMockEntry('entryA', 'typeA');
+  const entryB = createMockEntry('entryB', 'typeB');
+
+  it('should resolve links in order with a single query', async () => {
+    const space = createSpace([entryA, entryB]);
+    const resolver = createLinkedEntryResolver(space);
+
+    expect(await resolver.resolve([link('entryB'), link('entryA'), link('entryB')])).toEqual([entryB, entryA, entryB]);
+    expect(space.getEntries).toHaveBeenCalledTimes(1);
+    expect(space.getEntries).toHaveBeenCalledWith({ 'sys.id[in]': 'entryB,entryA', limit: 2 });
+  });
+
+  it('should only fetch entries that are not cached yet', async () => {
+    const space = createSpace([entryA, entryB]);
+    const resolver = createLinkedEntryResolver(space);
+
+    await resolver.resolve([link('entryA')]);
+    await resolver.resolve([link('entryA'), link('entryB')]);
+    await resolver.resolve([link('entryB'), link('entryA')]);
+
+    expect(space.getEntries).toHaveBeenCalledTimes(2);
+    expect(space.getEntries).toHaveBeenLastCalledWith({ 'sys.id[in]': 'entryB', limit: 1 });
+  });
+
+  it('should split large link lists into queries of at most 100 ids', async () => {
+    const entries = Array.from({ length: 150 }, (_, i) => createMockEntry(`entry${i}`, 'typeA'));
+    const space = createSpace(entries);
+    const resolver = createLinkedEntryResolver(space);
+
+    expect(await resolver.resolve(entries.map((entry) => link(entry.sys.id)))).toEqual(entries);
+    expect(space.getEntries).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the bare link for a linked entry that cannot be found', async () => {
+    const resolver = createLinkedEntryResolver(createSpace([entryA]));
+
+    expect(await resolver.resolve([link('entryA'), link('deleted')])).toEqual([
+      entryA,
+      { sys: { type: 'Link', linkType: 'Entry', id: 'deleted' } },
+    ]);
+  });
+
+  it('should refetch cached entries when asked to refresh', async () => {
+    const space = createSpace([entryA]);
+    const resolver = createLinkedEntryResolver(space);
+    const publishedEntryA = { ...entryA, sys: { ...entryA.sys, publishedVersion: 1 } };
+
+    await resolver.resolve([link('entryA')]);
+    space.getEntries.mockResolvedValueOnce({ items: [publishedEntryA] });
+
+    expect(await resolver.resolve([link('entryA')], { refresh: true })).toEqual([publishedEntryA]);
+    expect(space.getEntries).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createLinkedAssetResolver', () => {
+  it('should resolve asset links with a single query and keep missing ones as links', async () => {
+    const image = { sys: { id: 'image1', type: 'Asset' }, fields: {} };
+    const space = { getAssets: vi.fn().mockResolvedValue({ items: [image] }) };
+    const resolver = createLinkedAssetResolver(space as any);
+
+    expect(await resolver.resolve([assetLink('image1'), assetLink('deleted')])).toEqual([
+      image,
+      { sys: { type: 'Link', linkType: 'Asset', id: 'deleted' } },
+    ]);
+    expect(space.getAssets).toHaveBeenCalledWith({ 'sys.id[in]': 'image1,deleted', limit: 2 });
+  });
+});
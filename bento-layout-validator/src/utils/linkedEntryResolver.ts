@@ -0,0 +1,84 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AssetProps } from 'contentful-management/dist/typings/entities/asset';
+import { AssetLink, EntryLink, LinkedAsset, LinkedEntry } from '../types';
+
+// Maximum number of ids per getEntries query, the CMA page size limit
+const MAX_IDS_PER_QUERY = 100;
+
+type Query = { [key: string]: any };
+
+// The part of the space API the resolver needs, satisfied by sdk.space
+export interface EntryQueryApi {
+  getEntries: (query: Query) => Promise<{ items: EntryProps<any>[] }>;
+}
+
+// The part of the space API the asset resolver needs, satisfied by sdk.space
+export interface AssetQueryApi {
+  getAssets: (query: Query) => Promise<{ items: AssetProps[] }>;
+}
+
+export interface ResolveOptions {
+  refresh?: boolean; // Refetch cached entries too, e.g. when their publish state matters
+}
+
+export interface LinkedEntryResolver {
+  resolve: (links: EntryLink[], options?: ResolveOptions) => Promise<LinkedEntry[]>;
+}
+
+export interface LinkedAssetResolver {
+  resolve: (links: AssetLink[], options?: ResolveOptions) => Promise<LinkedAsset[]>;
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Shared by the entry and asset resolvers: batched sys.id[in] queries, a session cache,
+// and bare links in place of the resources that cannot be found
+const createLinkResolver = <T extends { sys: { id: string } }, L extends 'Entry' | 'Asset'>(
+  fetchPage: (query: Query) => Promise<{ items: T[] }>,
+  linkType: L
+) => {
+  const cache = new Map<string, T>();
+
+  const resolve = async (
+    links: { sys: { id: string } }[],
+    { refresh = false }: ResolveOptions = {}
+  ): Promise<Array<T | { sys: { type: 'Link'; linkType: L; id: string } }>> => {
+    const ids = links.map((link) => link.sys.id);
+    const missingIds = Array.from(new Set(refresh ? ids : ids.filter((id) => !cache.has(id))));
+
+    const responses = await Promise.all(
+      chunk(missingIds, MAX_IDS_PER_QUERY).map((idChunk) =>
+        fetchPage({ 'sys.id[in]': idChunk.join(','), limit: idChunk.length })
+      )
+    );
+    // A refetched resource that is no longer found has been deleted in the meantime
+    missingIds.forEach((id) => cache.delete(id));
+    responses.forEach((response) => response.items.forEach((item) => cache.set(item.sys.id, item)));
+
+    // Keep the order (and duplicates) of the links
+    return ids.map((id) => cache.get(id) ?? { sys: { type: 'Link' as const, linkType, id } });
+  };
+
+  return { resolve };
+};
+
+// Creates a resolver that turns reference field links into full entries.
+// All unknown ids are fetched with a single sys.id[in] query instead of one getEntry call per link.
+// Fetched entries are cached for the lifetime of the resolver (the editing session), so dragging cards around does
+// not refetch them: an entry's content type never changes. Callers pass `refresh` when a layout also checks what can
+// change, such as publish states, fields or nested cards.
+// Links whose entry cannot be found (deleted, or not accessible to the user) are returned as bare links,
+// so every card can be reported on its own instead of failing the whole field.
+export const createLinkedEntryResolver = (space: EntryQueryApi): LinkedEntryResolver =>
+  createLinkResolver((query) => space.getEntries(query), 'Entry');
+
+// Creates a resolver for the assets linked by the cards, e.g. to check image dimensions.
+// Works like createLinkedEntryResolver.
+export const createLinkedAssetResolver = (space: AssetQueryApi): LinkedAssetResolver =>
+  createLinkResolver((query) => space.getAssets(query), 'Asset');
@@ -0,0 +1,55 @@
+import { vi } from 'vitest';
+import { resolveNestedEntries } from './nestedEntryResolver';
+import { createLinkedEntryResolver } from './linkedEntryResolver';
+import { ValidationConfig } from '../types';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { cards, createMockEntry } from '../../test/mocks';
+
+// Mimics sdk.space.getEntries serving the given entries, honouring the sys.id[in] filter
+const createSpace = (entries: EntryProps[]) => ({
+  getEntries: vi.fn((query: { [key: string]: any }) => {
+    const ids: string[] = query['sys.id[in]'].split(',');
+    return Promise.resolve({ items: entries.filter((entry) => ids.includes(entry.sys.id)) });
+  }),
+});
+
+describe('resolveNestedEntries', () => {
+  const columnConfig: ValidationConfig = {
+    layoutType: 'column',
+    targetContentType: 'column',
+    validateField: ['items'],
+    positions: {
+      cards: { index: 'rest', allowedTypes: ['typeA', 'column'], childLayout: { field: 'items', layoutType: 'column' } },
+    },
+    limits: { totalEntries: { min: 1 } },
+  };
+  const context = { locale: 'en-US', layouts: [columnConfig] };
+
+  it('should fetch the cards of each nesting level in one query', async () => {
+    const inner = createMockEntry('inner', 'column', { items: cards('card2') });
+    const outer = createMockEntry('outer', 'column', { items: cards('card1', 'inner') });
+    const space = createSpace([inner, createMockEntry('card1', 'typeA'), createMockEntry('card2', 'typeA')]);
+
+    const resolved = await resolveNestedEntries([columnConfig], [outer], createLinkedEntryResolver(space), context);
+
+    expect(Object.keys(resolved)).toEqual(['card1', 'inner', 'card2']);
+    expect(space.getEntries).toHaveBeenCalledTimes(2);
+    expect(space.getEntries).toHaveBeenNthCalledWith(1, { 'sys.id[in]': 'card1,inner', limit: 2 });
+  });
+
+  it('should not refetch a container that links back to itself', async () => {
+    const loop = createMockEntry('loop', 'column', { items: cards('loop') });
+    const space = createSpace([loop]);
+
+    const resolved = await resolveNestedEntries([columnConfig], [loop], createLinkedEntryResolver(space), context);
+
+    expect(resolved).toEqual({ loop });
+    expect(space.getEntries).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep cards that cannot be found as links', async () => {
+    const outer = createMockEntry('outer', 'column', { items: cards('deleted') });
+    const resolved = await resolveNestedEntries([columnConfig], [outer], createLinkedEntryResolver(createSpace([])), context);
+    expect(resolved.deleted).toEqual({ sys: { type: 'Link', linkType: 'Entry', id: 'deleted' } });
+  });
+});
@@ -0,0 +1,35 @@
+import { LinkedEntry, ValidationConfig, ValidationContext } from '../types';
+import { getChildContainers, getChildEntries, MAX_NESTING_DEPTH } from '../validators/nesting';
+import { LinkedEntryResolver, ResolveOptions } from './linkedEntryResolver';
+
+// Resolves the cards of nested containers, level by level, so the validator can check them against their child layouts.
+// Each level is fetched in one batch. Returns the resolved cards by id, to be passed as ValidationContext.linkedEntries.
+// Stops at MAX_NESTING_DEPTH, deeper containers are reported by the validator instead.
+export const resolveNestedEntries = async (
+  configs: ValidationConfig[],
+  linkedEntries: LinkedEntry[],
+  resolver: LinkedEntryResolver,
+  context: ValidationContext,
+  options: ResolveOptions = {}
+): Promise<{ [entryId: string]: LinkedEntry }> => {
+  const resolved: { [entryId: string]: LinkedEntry } = {};
+  let level = configs.map((config) => ({ config, entries: linkedEntries }));
+
+  for (let depth = 0; depth < MAX_NESTING_DEPTH && level.length > 0; depth++) {
+    const containers = level.flatMap(({ config, entries }) => getChildContainers(config, entries, context));
+    // A card shared by several containers, or linking back to one of them, is only fetched once
+    const links = containers.flatMap((container) => container.links).filter((link) => !(link.sys.id in resolved));
+    if (links.length > 0) {
+      const entries = await resolver.resolve(links, options);
+      entries.forEach((entry) => (resolved[entry.sys.id] = entry));
+    }
+
+    const levelContext = { ...context, linkedEntries: resolved };
+    level = containers.map((container) => ({
+      config: container.layout,
+      entries: getChildEntries(container.links, levelContext),
+    }));
+  }
+
+  return resolved;
+};
@@ -0,0 +1,66 @@
+import { REPORT_COLUMNS, ReportSubject, toCsvReport, toJsonReport, toReportRecords } from './reportExport';
+
+const subject: ReportSubject = {
+  entryId: 'entry1',
+  title: 'Home, spring',
+  contentType: 'CardsContainer',
+  layoutType: 'bento-hero',
+  locale: 'en-US',
+  errors: [
+    { code: 'TYPE_NOT_ALLOWED', severity: 'error', message: 'Position "hero" does not allow "CardTypeB"' },
+    { code: 'TOTAL_MISMATCH', severity: 'error', message: 'Expected 2 entries, found 1', locale: 'de-DE' },
+  ],
+  lastUpdatedBy: 'user1',
+};
+
+describe('toReportRecords', () => {
+  it('should create a record per locale with problems', () => {
+    expect(toReportRecords([subject])).toEqual([
+      {
+        entryId: 'entry1',
+        title: 'Home, spring',
+        contentType: 'CardsContainer',
+        layoutType: 'bento-hero',
+        locale: 'en-US',
+        errorCodes: ['TYPE_NOT_ALLOWED'],
+        messages: ['Position "hero" does not allow "CardTypeB"'],
+        lastUpdatedBy: 'user1',
+      },
+      expect.objectContaining({ locale: 'de-DE', errorCodes: ['TOTAL_MISMATCH'] }),
+    ]);
+  });
+
+  it('should keep a record for a result without problems', () => {
+    const [record] = toReportRecords([{ ...subject, layoutType: undefined, errors: [], lastUpdatedBy: undefined }]);
+
+    expect(record).toEqual(expect.objectContaining({ layoutType: '', errorCodes: [], messages: [], lastUpdatedBy: '' }));
+  });
+});
+
+describe('toCsvReport', () => {
+  it('should write a header row and quote the cells that need it', () => {
+    const csv = toCsvReport(toReportRecords([subject]));
+
+    expect(csv.split('\r\n')[0]).toBe(REPORT_COLUMNS.join(','));
+    expect(csv).toContain(
+      'entry1,"Home, spring",CardsContainer,bento-hero,en-US,TYPE_NOT_ALLOWED,"Position ""hero"" does not allow ""CardTypeB""",user1\r\n'
+    );
+  });
+
+  it('should join lists with line breaks and neutralize formulas', () => {
+    const [record] = toReportRecords([{ ...subject, title: '=HYPERLINK("x")' }]);
+    const csv = toCsvReport([{ ...record, errorCodes: ['A', 'B'] }]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(csv).toContain('"A\nB"');
+  });
+});
+
+describe('toJsonReport', () => {
+  it('should serialize the records with their keys in column order', () => {
+    const [record] = JSON.parse(toJsonReport(toReportRecords([subject])));
+
+    expect(Object.keys(record)).toEqual([...REPORT_COLUMNS]);
+    expect(record.errorCodes).toEqual(['TYPE_NOT_ALLOWED']);
+  });
+});
@@ -0,0 +1,90 @@
+import { ValidationError } from '../types';
+
+// The columns of an exported report, in order. Reports are read by scripts and spreadsheets outside the app, so
+// columns are only ever added at the end, never renamed, removed or reordered.
+export const REPORT_COLUMNS = [
+  'entryId',
+  'title',
+  'contentType',
+  'layoutType',
+  'locale',
+  'errorCodes',
+  'messages',
+  'lastUpdatedBy',
+] as const;
+
+export type ReportColumn = typeof REPORT_COLUMNS[number];
+
+// A row of a report: the problems of an entry's layout in one locale
+export interface ReportRecord {
+  entryId: string;
+  title: string;
+  contentType: string;
+  layoutType: string; // Empty when the entry could not be validated against a layout
+  locale: string;
+  errorCodes: string[];
+  messages: string[];
+  lastUpdatedBy: string; // Id of the user who last updated the entry, empty when unknown
+}
+
+// A validation result together with the entry it is about
+export interface ReportSubject {
+  entryId: string;
+  title: string;
+  contentType: string;
+  layoutType?: string;
+  locale: string; // Locale of the errors that carry none, e.g. the locale being edited
+  errors: ValidationError[];
+  lastUpdatedBy?: string;
+}
+
+// One record per locale with problems, in the order the locales were reported. A result without problems still
+// gets a record, so a report can list every entry validated and not only the failing ones.
+export const toReportRecords = (subjects: ReportSubject[]): ReportRecord[] =>
+  subjects.flatMap((subject) => {
+    const errorsByLocale = new Map<string, ValidationError[]>();
+    subject.errors.forEach((error) => {
+      const locale = error.locale ?? subject.locale;
+      errorsByLocale.set(locale, [...(errorsByLocale.get(locale) ?? []), error]);
+    });
+    if (errorsByLocale.size === 0) {
+      errorsByLocale.set(subject.locale, []);
+    }
+
+    return Array.from(errorsByLocale).map(
+      ([locale, errors]): ReportRecord => ({
+        entryId: subject.entryId,
+        title: subject.title,
+        contentType: subject.contentType,
+        layoutType: subject.layoutType ?? '',
+        locale,
+        errorCodes: Array.from(new Set(errors.map((error) => error.code))),
+        messages: errors.map((error) => error.message),
+        lastUpdatedBy: subject.lastUpdatedBy ?? '',
+      })
+    );
+  });
+
+// Values a spreadsheet would run as a formula, e.g. a title starting with "=", are prefixed with an apostrophe
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes a cell when it holds a separator, a quote or a line break (RFC 4180)
+const toCsvCell = (value: string | string[]): string => {
+  const text = Array.isArray(value) ? value.join('\n') : value;
+  const safe = FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// A CSV report with a header row. Lists of codes and messages are joined by line breaks within their cell.
+export const toCsvReport = (records: ReportRecord[]): string =>
+  [REPORT_COLUMNS.join(','), ...records.map((record) => REPORT_COLUMNS.map((column) => toCsvCell(record[column])).join(','))]
+    .map((line) => `${line}\r\n`)
+    .join('');
+
+// A JSON report: the records with their keys in column order, codes and messages as arrays
+export const toJsonReport = (records: ReportRecord[]): string =>
+  JSON.stringify(
+    records.map((record) => Object.fromEntries(REPORT_COLUMNS.map((column) => [column, record[column]]))),
+    null,
+    2
+  );
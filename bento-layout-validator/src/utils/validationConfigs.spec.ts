@@ -0,0 +1,93 @@
+import {
+  findValidationConfigs,
+  getLayoutFieldId,
+  getValidationConfigs,
+  parseValidationConfigs,
+  selectLayoutConfig,
+} from './validationConfigs';
+import { ValidationConfig } from '../types';
+
+const createConfig = (overrides: Partial<ValidationConfig> = {}): ValidationConfig => ({
+  layoutType: 'bento-1-2',
+  targetContentType: 'CardsContainer',
+  validateField: ['contentCards'],
+  positions: {
+    pos1: { index: 0, allowedTypes: ['typeA'] },
+  },
+  limits: { totalEntries: 1 },
+  ...overrides,
+});
+
+describe('getValidationConfigs', () => {
+  it('should return the configured layouts', () => {
+    const config = createConfig();
+    expect(getValidationConfigs({ validationConfigs: [config] })).toEqual([config]);
+  });
+
+  it('should return an empty list when nothing is configured', () => {
+    expect(getValidationConfigs(null)).toEqual([]);
+    expect(getValidationConfigs(undefined)).toEqual([]);
+    expect(getValidationConfigs({})).toEqual([]);
+  });
+});
+
+describe('findValidationConfigs', () => {
+  it('should match on content type and field id', () => {
+    const other = createConfig({ targetContentType: 'OtherContainer' });
+    const match = createConfig({ validateField: ['heroCards', 'contentCards'] });
+    expect(findValidationConfigs([other, match], 'CardsContainer', 'contentCards')).toEqual([match]);
+  });
+
+  it('should return an empty list when the field is not configured', () => {
+    expect(findValidationConfigs([createConfig()], 'CardsContainer', 'otherField')).toEqual([]);
+  });
+
+  it('should keep the authored order of matching layouts', () => {
+    const first = createConfig({ layoutType: 'bento-1-2' });
+    const second = createConfig({ layoutType: 'bento-2-1' });
+    expect(findValidationConfigs([first, second], 'CardsContainer', 'contentCards')).toEqual([first, second]);
+  });
+});
+
+describe('getLayoutFieldId', () => {
+  it('should return the configured discriminator field', () => {
+    expect(getLayoutFieldId([createConfig(), createConfig({ layoutField: 'layout' })])).toBe('layout');
+  });
+
+  it('should return undefined when no layout has a discriminator field', () => {
+    expect(getLayoutFieldId([createConfig()])).toBeUndefined();
+  });
+});
+
+describe('selectLayoutConfig', () => {
+  const bento12 = createConfig({ layoutType: 'bento-1-2', layoutField: 'layout' });
+  const bento21 = createConfig({ layoutType: 'bento-2-1', layoutField: 'layout' });
+
+  it('should pick the layout matching the discriminator value', () => {
+    expect(selectLayoutConfig([bento12, bento21], 'bento-2-1')).toBe(bento21);
+  });
+
+  it('should return undefined for an unknown or empty value', () => {
+    expect(selectLayoutConfig([bento12, bento21], 'bento-3-3')).toBeUndefined();
+    expect(selectLayoutConfig([bento12, bento21], undefined)).toBeUndefined();
+  });
+});
+
+describe('parseValidationConfigs', () => {
+  it('should parse a JSON array of layouts', () => {
+    const config = createConfig();
+    expect(parseValidationConfigs(JSON.stringify([config]))).toEqual({ configs: [config] });
+  });
+
+  it('should treat an empty editor as no layouts', () => {
+    expect(parseValidationConfigs('  ')).toEqual({ configs: [] });
+  });
+
+  it('should report invalid JSON', () => {
+    expect(parseValidationConfigs('[{').error).toMatch(/^Invalid JSON/);
+  });
+
+  it('should report a non-array value', () => {
+    expect(parseValidationConfigs('{}').error).toBe('Layout configuration must be a JSON array of layouts.');
+  });
+});
@@ -0,0 +1,60 @@
+import { AppInstallationParameters, ValidationConfig } from '../types';
+
+// Reads the list of layout configurations from the app installation parameters.
+// Anything that is not an array (e.g. the app was installed before layouts were configured) yields an empty list.
+export const getValidationConfigs = (
+  parameters: AppInstallationParameters | null | undefined
+): ValidationConfig[] => {
+  if (!parameters || !Array.isArray(parameters.validationConfigs)) {
+    return [];
+  }
+  return parameters.validationConfigs;
+};
+
+// Finds every layout configuration that applies to a given field of a given content type.
+// Results keep the order in which they were authored in the ConfigScreen.
+export const findValidationConfigs = (
+  configs: ValidationConfig[],
+  contentTypeId: string,
+  fieldId: string
+): ValidationConfig[] =>
+  configs.filter(
+    (config) =>
+      config.targetContentType === contentTypeId &&
+      Array.isArray(config.validateField) &&
+      config.validateField.includes(fieldId)
+  );
+
+// Returns the discriminator field configured for a set of candidate layouts, if any
+export const getLayoutFieldId = (candidates: ValidationConfig[]): string | undefined =>
+  candidates.find((config) => config.layoutField)?.layoutField;
+
+// Picks the candidate layout whose layoutType matches the value of the discriminator field
+export const selectLayoutConfig = (
+  candidates: ValidationConfig[],
+  layoutValue: unknown
+): ValidationConfig | undefined =>
+  typeof layoutValue === 'string' ? candidates.find((config) => config.layoutType === layoutValue) : undefined;
+
+// Parses the JSON authored in the ConfigScreen editor.
+// Returns either the parsed configurations or a human readable error message.
+export const parseValidationConfigs = (
+  text: string
+): { configs: ValidationConfig[]; error?: undefined } | { configs?: undefined; error: string } => {
+  if (text.trim() === '') {
+    return { configs: [] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { error: `Invalid JSON: ${(error as Error).message}` };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { error: 'Layout configuration must be a JSON array of layouts.' };
+  }
+
+  return { configs: parsed as ValidationConfig[] };
+};
@@ -0,0 +1,91 @@
+import { findValidOrder } from './autofix';
+import { validateBentoLayout } from './bentoValidator';
+import { LinkedEntry } from '../types';
+import { cards, createConfig, createMockEntry, link } from '../../test/mocks';
+
+const reorder = (entries: LinkedEntry[], order: number[]) => order.map((index) => entries[index]);
+
+describe('findValidOrder', () => {
+  const config = createConfig(
+    {
+      hero: { index: 0, allowedTypes: ['A'] },
+      side: { index: 1, allowedTypes: ['B'] },
+      footer: { index: 'last', allowedTypes: ['C'] },
+    },
+    { totalEntries: 3, typeLimits: { A: 1, B: 1, C: 1 } }
+  );
+
+  it('should keep an order that already fits', () => {
+    const entries = [createMockEntry('a', 'A'), createMockEntry('b', 'B'), createMockEntry('c', 'C')];
+    expect(findValidOrder(config, entries)).toEqual([0, 1, 2]);
+  });
+
+  it('should find an order that passes validation', () => {
+    const entries = [createMockEntry('c', 'C'), createMockEntry('a', 'A'), createMockEntry('b', 'B')];
+    const order = findValidOrder(config, entries);
+    expect(order).toEqual([1, 2, 0]);
+    expect(validateBentoLayout(config, reorder(entries, order!)).isValid).toBe(true);
+  });
+
+  it('should move as few cards as it can', () => {
+    const grid = createConfig({ hero: { index: 0, allowedTypes: ['A'] }, others: { index: 'rest', allowedTypes: ['A', 'B'] } });
+    const entries = [createMockEntry('b1', 'B'), createMockEntry('a1', 'A'), createMockEntry('b2', 'B'), createMockEntry('a2', 'A')];
+    expect(findValidOrder(grid, entries)).toEqual([1, 0, 2, 3]);
+  });
+
+  it('should follow patterns and the field rules of each position', () => {
+    const patterned = createConfig({
+      hero: { index: 0, allowedTypes: ['A'], fields: { image: { required: true } } },
+      grid: { index: '1..', pattern: [['A'], ['B']] },
+    });
+    const entries = [
+      createMockEntry('plain', 'A'),
+      createMockEntry('b', 'B'),
+      createMockEntry('withImage', 'A', { image: { 'en-US': 'url' } }),
+    ];
+    const order = findValidOrder(patterned, entries, { locale: 'en-US' });
+    expect(order).toEqual([2, 0, 1]);
+    expect(validateBentoLayout(patterned, reorder(entries, order!), { locale: 'en-US' }).isValid).toBe(true);
+  });
+
+  it('should only put a container where its cards pass the child layout', () => {
+    const nested = createConfig({
+      hero: { index: 0, allowedTypes: ['column'], childLayout: { field: 'items', layoutType: 'column' } },
+      side: { index: 1, allowedTypes: ['column'] },
+    });
+    const column = createConfig({ top: { index: 0, allowedTypes: ['A'] } }, { totalEntries: 1 });
+    const columnLayout = { ...column, layoutType: 'column', targetContentType: 'column' };
+    const entries = [
+      createMockEntry('wrong', 'column', { items: cards('b') }),
+      createMockEntry('right', 'column', { items: cards('a') }),
+    ];
+    const context = {
+      locale: 'en-US',
+      layouts: [nested, columnLayout],
+      linkedEntries: { a: createMockEntry('a', 'A'), b: createMockEntry('b', 'B') },
+    };
+
+    const order = findValidOrder(nested, entries, context);
+
+    expect(order).toEqual([1, 0]);
+    expect(validateBentoLayout(nested, reorder(entries, order!), context).isValid).toBe(true);
+    expect(findValidOrder(nested, [entries[0], entries[0]], context)).toBeNull();
+  });
+
+  it('should fill positions with resolved cards before cards that could not be resolved', () => {
+    const loose = createConfig({ hero: { index: 0, allowedTypes: ['A'] }, side: { index: 1, allowedTypes: ['B'] } });
+    const entries = [link('missing'), createMockEntry('b', 'B'), createMockEntry('a', 'A')];
+    expect(findValidOrder(loose, entries)).toEqual([2, 1, 0]);
+  });
+
+  it('should return null when the counts do not fit the limits', () => {
+    const entries = [createMockEntry('a', 'A'), createMockEntry('b1', 'B'), createMockEntry('b2', 'B')];
+    expect(findValidOrder(config, entries)).toBeNull();
+    expect(findValidOrder(config, entries.slice(0, 2))).toBeNull();
+  });
+
+  it('should return null when no order satisfies the positions', () => {
+    const strict = createConfig({ hero: { index: 0, allowedTypes: ['A'] }, side: { index: 1, allowedTypes: ['A'] } });
+    expect(findValidOrder(strict, [createMockEntry('a', 'A'), createMockEntry('b', 'B')])).toBeNull();
+  });
+});
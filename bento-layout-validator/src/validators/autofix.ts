@@ -0,0 +1,120 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { LinkedEntry, ValidationConfig, ValidationContext } from '../types';
+import { validateBentoLayout } from './bentoValidator';
+import { isUnresolvedLink } from './entryStatus';
+import { validateFieldRules } from './fieldRules';
+import { getTotalEntriesRange, getTypeLimitRange } from './limits';
+import { findChildLayout, getChildEntries, getChildLinks } from './nesting';
+import { resolvePositions, ResolvedPosition } from './positions';
+
+const getContentTypeId = (entry: LinkedEntry): string | undefined =>
+  isUnresolvedLink(entry) ? undefined : entry.sys.contentType?.sys?.id;
+
+// The number of cards and of each content type does not depend on their order, so no reordering can fix them
+const countsFit = (config: ValidationConfig, linkedEntries: LinkedEntry[]): boolean => {
+  const { min = 0, max = Infinity } = getTotalEntriesRange(config.limits.totalEntries);
+  if (linkedEntries.length < min || linkedEntries.length > max) {
+    return false;
+  }
+  return Object.entries(config.limits.typeLimits ?? {}).every(([contentTypeId, limit]) => {
+    const { min: typeMin = 0, max: typeMax = Infinity } = getTypeLimitRange(limit);
+    const count = linkedEntries.filter((entry) => getContentTypeId(entry) === contentTypeId).length;
+    return count >= typeMin && count <= typeMax;
+  });
+};
+
+// Whether a card that is a container of its own passes the child layout of a position. Its cards stay where they
+// are wherever the card goes, so reordering the outer cards only helps by moving a failing container elsewhere.
+const passesChildLayout = (entry: EntryProps, position: ResolvedPosition, context: ValidationContext): boolean => {
+  const { childLayout } = position.rule;
+  const layout = childLayout && findChildLayout(childLayout, entry, context.layouts);
+  if (!childLayout || !layout || !context.linkedEntries) {
+    return true;
+  }
+  const links = getChildLinks(entry, childLayout.field, context);
+  return validateBentoLayout(layout, getChildEntries(links, context), { ...context, entryId: entry.sys.id }).isValid;
+};
+
+// Whether a card may sit at an index: its type is allowed by every position there and it passes their field rules
+// and child layouts.
+// An index no position applies to takes any card. A card that could not be resolved is reported wherever it is,
+// so unless strict it may take any position too.
+const canPlace = (
+  entry: LinkedEntry,
+  positions: ResolvedPosition[],
+  context: ValidationContext,
+  isStrict: boolean
+): boolean => {
+  if (positions.length === 0) {
+    return true;
+  }
+  if (isUnresolvedLink(entry)) {
+    return !isStrict;
+  }
+  const contentTypeId = getContentTypeId(entry);
+  if (!contentTypeId) {
+    return false;
+  }
+  return positions.every(
+    (position) =>
+      position.allowedTypes.includes(contentTypeId) &&
+      validateFieldRules(position, entry, context).every((error) => error.severity !== 'error') &&
+      passesChildLayout(entry, position, context)
+  );
+};
+
+// Bipartite matching of indexes to cards (Kuhn's algorithm), fits[index][card] telling whether the card may sit there.
+// Starts from the cards that fit where they are, so as few cards as possible are moved.
+const matchCards = (fits: boolean[][]): number[] | null => {
+  const cardAt: Array<number | undefined> = fits.map((row, index) => (row[index] ? index : undefined));
+  const indexOf: Array<number | undefined> = cardAt.map((card, index) => (card === undefined ? undefined : index));
+
+  const assign = (index: number, visited: Set<number>): boolean => {
+    for (let card = 0; card < fits.length; card++) {
+      if (!fits[index][card] || visited.has(card)) {
+        continue;
+      }
+      visited.add(card);
+      const previousIndex = indexOf[card];
+      if (previousIndex === undefined || assign(previousIndex, visited)) {
+        cardAt[index] = card;
+        indexOf[card] = index;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (let index = 0; index < fits.length; index++) {
+    if (cardAt[index] === undefined && !assign(index, new Set())) {
+      return null;
+    }
+  }
+  return cardAt as number[];
+};
+
+// Finds an order of the cards that satisfies the positions and limits of a layout, or null when there is none.
+// Returns the current index of the card to put at each index, e.g. [1, 0, 2] swaps the first two cards.
+// Cards that could not be resolved are only put on a position when nothing else fits there.
+export const findValidOrder = (
+  config: ValidationConfig,
+  linkedEntries: LinkedEntry[],
+  context: ValidationContext = {}
+): number[] | null => {
+  if (!countsFit(config, linkedEntries)) {
+    return null;
+  }
+
+  const count = linkedEntries.length;
+  const positionsByIndex: ResolvedPosition[][] = Array.from({ length: count }, () => []);
+  for (const position of resolvePositions(config, count)) {
+    if (position.index < 0 || position.index >= count) {
+      return null; // A fixed position beyond the cards stays empty in any order
+    }
+    positionsByIndex[position.index].push(position);
+  }
+
+  const getFits = (isStrict: boolean) =>
+    positionsByIndex.map((positions) => linkedEntries.map((entry) => canPlace(entry, positions, context, isStrict)));
+  return matchCards(getFits(true)) ?? matchCards(getFits(false));
+};
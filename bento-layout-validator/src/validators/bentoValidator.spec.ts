@@ -1,4 +1,4 @@
-import { validateBentoLayout } from './bentoValidator';
+import { validateBentoLayout, validateBentoLayoutForLocales } from './bentoValidator';
 import { ValidationConfig } from '../types';
 import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
 
@@ -13,6 +13,7 @@ const createMockEntry = (id: string, contentTypeId: string): EntryProps => ({
     space: { sys: { type: 'Link', linkType: 'Space', id: 'mockSpace' } },
     environment: { sys: { type: 'Link', linkType: 'Environment', id: 'master' } },
     contentType: { sys: { type: 'Link', linkType: 'ContentType', id: contentTypeId } },
+    automationTags: [],
   },
   fields: {}, // Keep fields empty for simplicity in these tests
 });
@@ -53,12 +54,15 @@ describe('validateBentoLayout', () => {
     const result = validateBentoLayout(baseConfig, entries);
     expect(result.isValid).toBe(false);
     expect(result.errors).toContainEqual({
+      code: 'TOTAL_MISMATCH',
+      severity: 'error',
+      params: { expected: baseConfig.limits.totalEntries, actual: entries.length },
       message: `Expected ${baseConfig.limits.totalEntries} entries, but found ${entries.length}.`,
     });
   });
 
   it('should handle zero expected entries and zero provided entries', () => {
-    const config: ValidationConfig = { ...baseConfig, limits: { ...baseConfig.limits, totalEntries: 0 } };
+    const config: ValidationConfig = { ...baseConfig, positions: {}, limits: { ...baseConfig.limits, totalEntries: 0 } };
     const entries: EntryProps[] = [];
     const result = validateBentoLayout(config, entries);
     expect(result.isValid).toBe(true);
@@ -76,9 +80,9 @@ describe('validateBentoLayout', () => {
     // it will report a totalEntries mismatch AND missing entries for pos1 and pos2.
     expect(result.isValid).toBe(false);
     expect(result.errors).toEqual(expect.arrayContaining([
-      { message: `Expected ${baseConfig.limits.totalEntries} entries, but found 0.` },
-      { message: `Missing entry at position 0 (pos1).` },
-      { message: `Missing entry at position 1 (pos2).` },
+      expect.objectContaining({ code: 'TOTAL_MISMATCH', params: { expected: 2, actual: 0 } }),
+      expect.objectContaining({ code: 'MISSING_POSITION', positionKey: 'pos1', index: 0 }),
+      expect.objectContaining({ code: 'MISSING_POSITION', positionKey: 'pos2', index: 1 }),
     ]));
   });
 
@@ -92,7 +96,13 @@ describe('validateBentoLayout', () => {
     // Let's test the original baseConfig.
     const result = validateBentoLayout(baseConfig, entries); // This will fail totalEntries AND missing pos2
     expect(result.isValid).toBe(false);
-    expect(result.errors).toContainEqual({ message: 'Missing entry at position 1 (pos2).' });
+    expect(result.errors).toContainEqual({
+      code: 'MISSING_POSITION',
+      severity: 'error',
+      positionKey: 'pos2',
+      index: 1,
+      message: 'Missing entry at position 1 (pos2).',
+    });
   });
 
   it('should return error for invalid content type at a position', () => {
@@ -103,6 +113,12 @@ describe('validateBentoLayout', () => {
     const result = validateBentoLayout(baseConfig, entries);
     expect(result.isValid).toBe(false);
     expect(result.errors).toContainEqual({
+      code: 'TYPE_NOT_ALLOWED',
+      severity: 'error',
+      positionKey: 'pos2',
+      index: 1,
+      entryId: 'entry2',
+      params: { contentTypeId: 'typeD', allowedTypes: ['typeB', 'typeC'] },
       message: "Invalid content type 'typeD' at position 1 (pos2). Allowed types: typeB, typeC.",
     });
   });
@@ -115,7 +131,12 @@ describe('validateBentoLayout', () => {
     const result = validateBentoLayout(baseConfig, entries as EntryProps[]);
     expect(result.isValid).toBe(false);
     expect(result.errors).toContainEqual({
-        message: 'Could not determine content type for entry at position 1 (pos2).',
+      code: 'UNKNOWN_CONTENT_TYPE',
+      severity: 'error',
+      positionKey: 'pos2',
+      index: 1,
+      entryId: 'entry2',
+      message: 'Could not determine content type for entry at position 1 (pos2).',
     });
   });
 
@@ -129,6 +150,9 @@ describe('validateBentoLayout', () => {
     const result = validateBentoLayout(baseConfig, entries);
     expect(result.isValid).toBe(false);
     expect(result.errors).toContainEqual({
+      code: 'TYPE_LIMIT_EXCEEDED',
+      severity: 'error',
+      params: { contentTypeId: 'typeA', limit: 1, count: 2 },
       message: "Too many entries of type 'typeA'. Expected maximum 1, but found 2.",
     });
   });
@@ -146,6 +170,8 @@ describe('validateBentoLayout', () => {
   it('should handle typeLimits when typeLimits is not defined in config', () => {
     const configNoTypeLimits: ValidationConfig = {
       ...baseConfig,
+      // Allow typeA in both positions so only a type limit could fail this layout
+      positions: { ...baseConfig.positions, pos2: { index: 1, allowedTypes: ['typeA', 'typeB'] } },
       limits: { totalEntries: 2 }, // No typeLimits here
     };
     const entries: EntryProps[] = [
@@ -175,14 +201,14 @@ describe('validateBentoLayout', () => {
 
   // --- Edge Cases ---
   it('should return isValid: true if linkedEntries is null and totalEntries is 0', () => {
-    const config: ValidationConfig = { ...baseConfig, limits: { totalEntries: 0 } };
+    const config: ValidationConfig = { ...baseConfig, positions: {}, limits: { totalEntries: 0 } };
     const result = validateBentoLayout(config, null);
     expect(result.isValid).toBe(true);
     expect(result.errors.length).toBe(0);
   });
 
   it('should return isValid: true if linkedEntries is undefined and totalEntries is 0', () => {
-    const config: ValidationConfig = { ...baseConfig, limits: { totalEntries: 0 } };
+    const config: ValidationConfig = { ...baseConfig, positions: {}, limits: { totalEntries: 0 } };
     const result = validateBentoLayout(config, undefined);
     expect(result.isValid).toBe(true);
     expect(result.errors.length).toBe(0);
@@ -194,12 +220,39 @@ describe('validateBentoLayout', () => {
     expect(result.errors).toEqual(expect.arrayContaining([
       // The message for totalEntries might vary if we decide to change behavior for null/undefined entries
       // Currently, it will say "found 0" because linkedEntries.length will be effectively 0
-      { message: `Expected ${baseConfig.limits.totalEntries} entries, but found 0.`},
-      { message: 'Missing entry at position 0 (pos1).'},
-      { message: 'Missing entry at position 1 (pos2).'},
+      expect.objectContaining({ code: 'TOTAL_MISMATCH', params: { expected: 2, actual: 0 } }),
+      expect.objectContaining({ code: 'MISSING_POSITION', positionKey: 'pos1', index: 0 }),
+      expect.objectContaining({ code: 'MISSING_POSITION', positionKey: 'pos2', index: 1 }),
     ]));
   });
 
+  // --- Empty Policy ---
+  it('should flag an empty field when the layout expects entries and does not allow empty', () => {
+    const result = validateBentoLayout({ ...baseConfig, allowEmpty: false }, []);
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map((error) => error.code)).toEqual(['TOTAL_MISMATCH', 'MISSING_POSITION', 'MISSING_POSITION']);
+  });
+
+  it('should return isValid: true for an empty field when allowEmpty is set', () => {
+    const config: ValidationConfig = { ...baseConfig, allowEmpty: true };
+    expect(validateBentoLayout(config, [])).toEqual({ isValid: true, errors: [] });
+    expect(validateBentoLayout(config, null)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should still validate a non-empty field when allowEmpty is set', () => {
+    const config: ValidationConfig = { ...baseConfig, allowEmpty: true };
+    const result = validateBentoLayout(config, [createMockEntry('entry1', 'typeA')]);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContainEqual(expect.objectContaining({ code: 'TOTAL_MISMATCH' }));
+  });
+
+  it('should report a range minimum for an empty field', () => {
+    const config: ValidationConfig = { ...baseConfig, positions: {}, limits: { totalEntries: { min: 1, max: 4 } } };
+    expect(validateBentoLayout(config, undefined).errors).toEqual([
+      expect.objectContaining({ code: 'TOTAL_BELOW_MIN', params: { min: 1, actual: 0 } }),
+    ]);
+  });
+
   it('should correctly validate when multiple errors are present', () => {
     const entries: EntryProps[] = [
       createMockEntry('entry1', 'typeD'), // Wrong type for pos1 (expected typeA)
@@ -210,10 +263,286 @@ describe('validateBentoLayout', () => {
     expect(result.isValid).toBe(false);
     expect(result.errors.length).toBe(3); // totalEntries, wrong type for pos1, missing pos2
     expect(result.errors).toEqual(expect.arrayContaining([
-      { message: `Expected ${baseConfig.limits.totalEntries} entries, but found ${entries.length}.` },
-      { message: "Invalid content type 'typeD' at position 0 (pos1). Allowed types: typeA." },
-      { message: 'Missing entry at position 1 (pos2).' },
+      expect.objectContaining({ code: 'TOTAL_MISMATCH' }),
+      expect.objectContaining({ code: 'TYPE_NOT_ALLOWED', positionKey: 'pos1', index: 0, entryId: 'entry1' }),
+      expect.objectContaining({ code: 'MISSING_POSITION', positionKey: 'pos2', index: 1 }),
     ]));
   });
 
+  // --- Range Limits ---
+  describe('with min/max ranges', () => {
+    const rangeConfig: ValidationConfig = {
+      ...baseConfig,
+      positions: { hero: { index: 0, allowedTypes: ['typeA'] } },
+      limits: {
+        totalEntries: { min: 3, max: 5 },
+        typeLimits: { typeA: { min: 1, max: 2 } },
+      },
+    };
+    const createEntries = (...contentTypeIds: string[]) =>
+      contentTypeIds.map((contentTypeId, i) => createMockEntry(`entry${i}`, contentTypeId));
+
+    it('should pass when the counts are within the ranges', () => {
+      const result = validateBentoLayout(rangeConfig, createEntries('typeA', 'typeB', 'typeB', 'typeA'));
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should report too few entries', () => {
+      const result = validateBentoLayout(rangeConfig, createEntries('typeA', 'typeB'));
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          code: 'TOTAL_BELOW_MIN',
+          params: { min: 3, actual: 2 },
+          message: 'Expected at least 3 entries, but found 2.',
+        }),
+      ]);
+    });
+
+    it('should report too many entries', () => {
+      const result = validateBentoLayout(rangeConfig, createEntries('typeA', 'typeB', 'typeB', 'typeB', 'typeB', 'typeB'));
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          code: 'TOTAL_ABOVE_MAX',
+          params: { max: 5, actual: 6 },
+          message: 'Expected at most 5 entries, but found 6.',
+        }),
+      ]);
+    });
+
+    it('should report a type below its minimum', () => {
+      const config: ValidationConfig = { ...rangeConfig, positions: {} };
+      const result = validateBentoLayout(config, createEntries('typeB', 'typeB', 'typeB'));
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          code: 'TYPE_BELOW_MIN',
+          params: { contentTypeId: 'typeA', limit: 1, count: 0 },
+          message: "Too few entries of type 'typeA'. Expected minimum 1, but found 0.",
+        }),
+      ]);
+    });
+
+    it('should report a type above its range maximum', () => {
+      const result = validateBentoLayout(rangeConfig, createEntries('typeA', 'typeA', 'typeA'));
+      expect(result.errors).toEqual([
+        expect.objectContaining({ code: 'TYPE_LIMIT_EXCEEDED', params: { contentTypeId: 'typeA', limit: 2, count: 3 } }),
+      ]);
+    });
+  });
+
+  describe('with unresolved or unpublished cards', () => {
+    const deletedLink = { sys: { type: 'Link' as const, linkType: 'Entry' as const, id: 'deleted' } };
+
+    it('should report a deleted card at its position instead of a content type error', () => {
+      const result = validateBentoLayout(baseConfig, [createMockEntry('entry1', 'typeA'), deletedLink]);
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ code: 'ENTRY_NOT_FOUND', entryId: 'deleted', index: 1, positionKey: 'pos2' }),
+      ]);
+    });
+
+    it('should keep a layout valid when flagged cards are only warnings', () => {
+      const config: ValidationConfig = { ...baseConfig, entryStatus: { draft: 'warning' } };
+      const result = validateBentoLayout(config, [createMockEntry('entry1', 'typeA'), createMockEntry('entry2', 'typeB')]);
+      expect(result.isValid).toBe(true);
+      expect(result.errors.map((error) => error.code)).toEqual(['ENTRY_DRAFT', 'ENTRY_DRAFT']);
+    });
+  });
+
+  describe('with field rules', () => {
+    const config: ValidationConfig = {
+      ...baseConfig,
+      positions: {
+        pos1: { index: 0, allowedTypes: ['typeA'], fields: { title: { required: true, maxLength: 5 } } },
+        pos2: baseConfig.positions.pos2,
+      },
+    };
+    const withTitle = (entry: EntryProps, title: string): EntryProps => ({ ...entry, fields: { title: { 'en-US': title } } });
+
+    it('should check the field rules of the card at a position', () => {
+      const result = validateBentoLayout(
+        config,
+        [withTitle(createMockEntry('entry1', 'typeA'), 'Too long'), createMockEntry('entry2', 'typeB')],
+        { locale: 'en-US' }
+      );
+      expect(result.errors).toEqual([
+        expect.objectContaining({ code: 'FIELD_TOO_LONG', positionKey: 'pos1', entryId: 'entry1' }),
+      ]);
+    });
+
+    it('should skip the field rules of a card with a type not allowed at its position', () => {
+      const result = validateBentoLayout(config, [createMockEntry('entry1', 'typeB'), createMockEntry('entry2', 'typeB')]);
+      expect(result.errors.map((error) => error.code)).toEqual(['TYPE_NOT_ALLOWED', 'TYPE_LIMIT_EXCEEDED']);
+    });
+  });
+});
+
+describe('validateBentoLayout with position selectors', () => {
+  // First card hero, then any number of alternating A and B cards, closed by a footer
+  const config: ValidationConfig = {
+    layoutType: 'hero-grid',
+    targetContentType: 'TestContainer',
+    validateField: ['testField'],
+    positions: {
+      hero: { index: 0, allowedTypes: ['hero'] },
+      grid: { index: '1..', pattern: [['typeA'], ['typeB']] },
+      footer: { index: 'last', allowedTypes: ['footer'] },
+    },
+    limits: { totalEntries: { min: 2 } },
+  };
+  const createEntries = (...types: string[]) => types.map((type, i) => createMockEntry(`entry${i}`, type));
+
+  it('should accept any number of cards following the pattern', () => {
+    expect(validateBentoLayout(config, createEntries('hero', 'footer')).isValid).toBe(true);
+    expect(validateBentoLayout(config, createEntries('hero', 'typeA', 'typeB', 'typeA', 'footer')).isValid).toBe(true);
+  });
+
+  it('should report a card breaking the pattern at its index', () => {
+    const result = validateBentoLayout(config, createEntries('hero', 'typeA', 'typeA', 'footer'));
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'TYPE_NOT_ALLOWED',
+        positionKey: 'grid',
+        index: 2,
+        message: "Invalid content type 'typeA' at position 2 (grid). Allowed types: typeB.",
+      }),
+    ]);
+  });
+
+  it('should report a missing last card', () => {
+    const result = validateBentoLayout(config, createEntries('hero'));
+    expect(result.errors.map((error) => error.code)).toEqual(['TOTAL_BELOW_MIN', 'TYPE_NOT_ALLOWED']);
+    expect(result.errors[1]).toEqual(expect.objectContaining({ positionKey: 'footer', index: 0 }));
+  });
+});
+
+describe('validateBentoLayoutForLocales', () => {
+  const config: ValidationConfig = {
+    layoutType: 'test-layout',
+    targetContentType: 'TestContainer',
+    validateField: ['testField'],
+    validateAllLocales: true,
+    positions: {
+      pos1: { index: 0, allowedTypes: ['typeA'], fields: { title: { required: true } } },
+    },
+    limits: { totalEntries: 1 },
+  };
+  const card = { ...createMockEntry('entry1', 'typeA'), fields: { title: { 'en-US': 'Title' } } };
+
+  it('should validate the cards of every locale and group the results per locale', () => {
+    const result = validateBentoLayoutForLocales(config, { 'en-US': [card], 'de-DE': [card, card] });
+
+    expect(result.isValid).toBe(false);
+    expect(result.locales?.['en-US']).toEqual({ isValid: true, errors: [] });
+    expect(result.locales?.['de-DE'].errors.map((error) => error.code)).toEqual(['TOTAL_MISMATCH', 'FIELD_REQUIRED']);
+    expect(result.errors).toEqual(result.locales?.['de-DE'].errors);
+    expect(result.errors.every((error) => error.locale === 'de-DE')).toBe(true);
+  });
+
+  it('should check the localized fields of the same cards in each locale', () => {
+    const result = validateBentoLayoutForLocales(config, { 'en-US': [card], 'de-DE': [card] }, { defaultLocale: 'en-US' });
+    expect(result.isValid).toBe(true);
+  });
+});
+
+describe('validateBentoLayout with nested containers', () => {
+  const entryLink = (id: string) => ({ sys: { type: 'Link', linkType: 'Entry', id } });
+  const createContainer = (id: string, items: string[]) => ({
+    ...createMockEntry(id, 'column'),
+    fields: { items: { 'en-US': items.map(entryLink) } },
+  });
+
+  const pageConfig: ValidationConfig = {
+    layoutType: 'page',
+    targetContentType: 'TestContainer',
+    validateField: ['testField'],
+    positions: {
+      rightColumnTopCard: { index: 0, allowedTypes: ['column'], childLayout: { field: 'items', layoutType: 'column' } },
+    },
+    limits: { totalEntries: 1 },
+  };
+  const columnConfig: ValidationConfig = {
+    layoutType: 'column',
+    targetContentType: 'column',
+    validateField: ['items'],
+    positions: {
+      top: { index: 0, allowedTypes: ['typeA'] },
+      bottom: { index: 1, allowedTypes: ['typeB', 'column'], childLayout: { field: 'items', layoutType: 'column' } },
+    },
+    limits: { totalEntries: 2 },
+  };
+  const layouts = [pageConfig, columnConfig];
+  const context = (...entries: EntryProps[]) => ({
+    layouts,
+    linkedEntries: Object.fromEntries(entries.map((entry) => [entry.sys.id, entry])),
+  });
+
+  it('should validate the cards of a nested container against its child layout', () => {
+    const column = createContainer('column1', ['card1', 'card2']);
+    const entries = context(column, createMockEntry('card1', 'typeA'), createMockEntry('card2', 'typeB'));
+    expect(validateBentoLayout(pageConfig, [column], entries)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should report nested errors with their path', () => {
+    const column = createContainer('column1', ['card1', 'card2', 'card3']);
+    const entries = context(column, createMockEntry('card1', 'typeA'), createMockEntry('card2', 'typeA'));
+    const result = validateBentoLayout(pageConfig, [column], entries);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map((error) => error.message)).toEqual([
+      'rightColumnTopCard > items: Expected 2 entries, but found 3.',
+      "rightColumnTopCard > items[1]: Invalid content type 'typeA' at position 1 (bottom). Allowed types: typeB, column.",
+      "rightColumnTopCard > items[2]: Linked entry 'card3' at position 2 is missing or inaccessible. It may have been deleted.",
+    ]);
+    expect(result.errors[1]).toEqual(expect.objectContaining({ path: 'rightColumnTopCard > items[1]', index: 1 }));
+  });
+
+  it('should name every container on the path of a deeper error', () => {
+    const inner = createContainer('column2', ['card1', 'card1']);
+    const outer = createContainer('column1', ['card1', 'column2']);
+    const result = validateBentoLayout(pageConfig, [outer], context(outer, inner, createMockEntry('card1', 'typeA')));
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ code: 'TYPE_NOT_ALLOWED', path: 'rightColumnTopCard > items[1] > items[1]' }),
+    ]);
+  });
+
+  it('should report a container that links back to one of its ancestors', () => {
+    const column = createContainer('column1', ['card1', 'column1']);
+    const result = validateBentoLayout(pageConfig, [column], context(column, createMockEntry('card1', 'typeA')));
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'NESTING_CYCLE',
+        path: 'rightColumnTopCard > items[1]',
+        message:
+          "rightColumnTopCard > items[1]: Linked entry 'column1' at position 1 (bottom) contains one of the containers it is nested in.",
+      }),
+    ]);
+  });
+
+  it('should report a card linking back to the entry being validated', () => {
+    const column = createContainer('page1', ['card1', 'card2']);
+    const result = validateBentoLayout(pageConfig, [column], { ...context(column), entryId: 'page1' });
+    expect(result.errors.map((error) => error.code)).toEqual(['NESTING_CYCLE']);
+  });
+
+  it('should stop at the maximum nesting depth', () => {
+    const card = createMockEntry('card1', 'typeA');
+    const columns = Array.from({ length: 7 }, (_, i) => createContainer(`column${i}`, ['card1', `column${i + 1}`]));
+    const result = validateBentoLayout(pageConfig, [columns[0]], context(card, ...columns));
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        code: 'NESTING_TOO_DEEP',
+        entryId: 'column5',
+        path: 'rightColumnTopCard > items[1] > items[1] > items[1] > items[1] > items[1]',
+        params: { maxDepth: 5 },
+      }),
+    ]);
+  });
+
+  it('should skip nested containers without resolved cards', () => {
+    const column = createContainer('column1', ['card1']);
+    expect(validateBentoLayout(pageConfig, [column], { layouts }).isValid).toBe(true);
+  });
 });
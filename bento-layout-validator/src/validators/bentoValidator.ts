@@ -1,5 +1,10 @@
-import { ValidationConfig, ValidationResult, ValidationError } from '../types';
-import { EntryProps } from 'contentful-management/dist/typings/entities/entry'; // Using EntryProps for linked entries
+import { LinkedEntry, ValidationConfig, ValidationContext, ValidationResult, ValidationError } from '../types';
+import { createValidationError, renderValidationMessage } from './validationMessages';
+import { getTotalEntriesRange, getTypeLimitRange } from './limits';
+import { isUnresolvedLink, validateLinkedEntries } from './entryStatus';
+import { validateFieldRules } from './fieldRules';
+import { resolvePositions } from './positions';
+import { findChildLayout, getChildEntries, getChildLinks, MAX_NESTING_DEPTH } from './nesting';
 
 // Helper to get content type ID from an entry link
 const getContentTypeIdFromLink = (entry: any): string | null => {
@@ -11,55 +16,121 @@ const getContentTypeIdFromLink = (entry: any): string | null => {
   return null;
 };
 
-export const validateBentoLayout = (
+// Only errors block a layout, warnings and info are reported but do not make it invalid
+export const toValidationResult = (errors: ValidationError[]): ValidationResult => ({
+  isValid: errors.every((error) => error.severity !== 'error'),
+  errors,
+});
+
+// Where a layout sits when it belongs to a card nested in another container
+interface Nesting {
+  path: string[]; // Labels of the containers above, e.g. ['rightColumnTopCard', 'items[2]']
+  field?: string; // Reference field holding the cards, unset for the field being edited
+  ancestors: string[]; // Ids of the container entries above, to detect cycles
+}
+
+// Prefixes the errors of a nested layout with where they occurred, e.g. "rightColumnTopCard > items[1]"
+const withPath = (error: ValidationError, { path, field }: Nesting): ValidationError => {
+  const label = error.index === undefined ? field : `${field}[${error.index}]`;
+  const nested = { ...error, path: [...path, label].join(' > ') };
+  return { ...nested, message: renderValidationMessage(nested) };
+};
+
+const validateLayout = (
   config: ValidationConfig,
-  linkedEntries: EntryProps[] | null | undefined // Array of linked content entries
-): ValidationResult => {
+  linkedEntries: LinkedEntry[] | null | undefined,
+  context: ValidationContext,
+  nesting: Nesting
+): ValidationError[] => {
   const errors: ValidationError[] = [];
+  const nestedErrors: ValidationError[] = [];
+  const totalRange = getTotalEntriesRange(config.limits.totalEntries);
 
+  // An empty field is only acceptable when the layout explicitly allows it.
+  // Otherwise it is validated like any other value, reporting the total count and every missing position.
   if (!linkedEntries || linkedEntries.length === 0) {
-    if (config.limits.totalEntries > 0) {
-      // errors.push({ message: `No entries found, but layout expects at least one.` });
-      // Depending on requirements, this might not be an error if 0 entries are allowed.
-      // For now, let's assume if totalEntries > 0, it's an error.
+    if (config.allowEmpty) {
+      return errors;
     }
-    // If no entries and no totalEntries limit, or totalEntries is 0, it's valid.
-    return { isValid: errors.length === 0, errors };
+    linkedEntries = [];
   }
 
-  // 1. Validate total number of entries
-  if (linkedEntries.length !== config.limits.totalEntries) {
-    errors.push({
-      message: `Expected ${config.limits.totalEntries} entries, but found ${linkedEntries.length}.`,
-    });
+  // 1. Validate total number of entries, either an exact count or a min/max range
+  const actual = linkedEntries.length;
+  if (typeof config.limits.totalEntries === 'number') {
+    if (actual !== config.limits.totalEntries) {
+      errors.push(
+        createValidationError('TOTAL_MISMATCH', {
+          params: { expected: config.limits.totalEntries, actual },
+        })
+      );
+    }
+  } else if (totalRange.min !== undefined && actual < totalRange.min) {
+    errors.push(createValidationError('TOTAL_BELOW_MIN', { params: { min: totalRange.min, actual } }));
+  } else if (totalRange.max !== undefined && actual > totalRange.max) {
+    errors.push(createValidationError('TOTAL_ABOVE_MAX', { params: { max: totalRange.max, actual } }));
   }
 
-  // 2. Validate positions and allowed content types
-  for (const positionKey in config.positions) {
-    const positionRule = config.positions[positionKey];
-    const entryAtIndex = linkedEntries[positionRule.index];
+  // 2. Validate positions, allowed content types and the field rules of each card
+  for (const position of resolvePositions(config, linkedEntries.length)) {
+    const { positionKey, index, allowedTypes } = position;
+    const entryAtIndex = index >= 0 ? linkedEntries[index] : undefined;
 
     if (!entryAtIndex) {
-      errors.push({
-        message: `Missing entry at position ${positionRule.index} (${positionKey}).`,
-      });
+      errors.push(createValidationError('MISSING_POSITION', { positionKey, index }));
       continue; // Skip further checks for this position if entry is missing
     }
 
+    if (isUnresolvedLink(entryAtIndex)) {
+      continue; // A deleted or inaccessible card is reported by the linked entry checks below
+    }
+
+    const entryId = entryAtIndex.sys?.id;
     const entryContentTypeId = getContentTypeIdFromLink(entryAtIndex);
 
     if (!entryContentTypeId) {
-      errors.push({
-        message: `Could not determine content type for entry at position ${positionRule.index} (${positionKey}).`,
-      });
+      errors.push(createValidationError('UNKNOWN_CONTENT_TYPE', { positionKey, index, entryId }));
       continue;
     }
 
-    if (!positionRule.allowedTypes.includes(entryContentTypeId)) {
-      errors.push({
-        message: `Invalid content type '${entryContentTypeId}' at position ${positionRule.index} (${positionKey}). Allowed types: ${positionRule.allowedTypes.join(', ')}.`,
-      });
+    if (!allowedTypes.includes(entryContentTypeId)) {
+      errors.push(
+        createValidationError('TYPE_NOT_ALLOWED', {
+          positionKey,
+          index,
+          entryId,
+          params: { contentTypeId: entryContentTypeId, allowedTypes },
+        })
+      );
+      continue; // Field rules are written for the allowed types, they do not apply to a misplaced card
     }
+
+    errors.push(...validateFieldRules(position, entryAtIndex, context));
+
+    // 2b. A card that is a container of its own is validated against its child layout
+    const { childLayout } = position.rule;
+    const childLayoutConfig = childLayout && findChildLayout(childLayout, entryAtIndex, context.layouts);
+    if (!childLayout || !childLayoutConfig || !context.linkedEntries) {
+      continue;
+    }
+    if (nesting.ancestors.includes(entryId)) {
+      errors.push(createValidationError('NESTING_CYCLE', { positionKey, index, entryId }));
+      continue;
+    }
+    if (nesting.path.length + 1 > MAX_NESTING_DEPTH) {
+      errors.push(
+        createValidationError('NESTING_TOO_DEEP', { positionKey, index, entryId, params: { maxDepth: MAX_NESTING_DEPTH } })
+      );
+      continue;
+    }
+    const links = getChildLinks(entryAtIndex, childLayout.field, context);
+    nestedErrors.push(
+      ...validateLayout(childLayoutConfig, getChildEntries(links, context), context, {
+        path: [...nesting.path, nesting.field === undefined ? positionKey : `${nesting.field}[${index}]`],
+        field: childLayout.field,
+        ancestors: [...nesting.ancestors, entryId],
+      })
+    );
   }
 
   // 3. Validate type limits (if specified)
@@ -73,15 +144,55 @@ export const validateBentoLayout = (
     });
 
     for (const typeKey in config.limits.typeLimits) {
-      const limit = config.limits.typeLimits[typeKey];
+      const { min, max } = getTypeLimitRange(config.limits.typeLimits[typeKey]);
       const count = contentTypeCounts[typeKey] || 0;
-      if (count > limit) {
-        errors.push({
-          message: `Too many entries of type '${typeKey}'. Expected maximum ${limit}, but found ${count}.`,
-        });
+      if (max !== undefined && count > max) {
+        errors.push(
+          createValidationError('TYPE_LIMIT_EXCEEDED', {
+            params: { contentTypeId: typeKey, limit: max, count },
+          })
+        );
+      }
+      if (min !== undefined && count < min) {
+        errors.push(
+          createValidationError('TYPE_BELOW_MIN', {
+            params: { contentTypeId: typeKey, limit: min, count },
+          })
+        );
       }
     }
   }
 
-  return { isValid: errors.length === 0, errors };
+  // 4. Validate that every card resolves and is in a publish state the layout accepts
+  errors.push(...validateLinkedEntries(config, linkedEntries));
+
+  const ownErrors = nesting.field === undefined ? errors : errors.map((error) => withPath(error, nesting));
+  return [...ownErrors, ...nestedErrors];
+};
+
+export const validateBentoLayout = (
+  config: ValidationConfig,
+  linkedEntries: LinkedEntry[] | null | undefined, // Array of linked content entries, unresolved cards stay links
+  context: ValidationContext = {} // Locale, assets and the cards of nested containers the layout is checked against
+): ValidationResult =>
+  toValidationResult(
+    validateLayout(config, linkedEntries, context, { path: [], ancestors: context.entryId ? [context.entryId] : [] })
+  );
+
+// Validates the value of every locale of the field, e.g. a bento that is valid in en-US but broken in de-DE.
+// Each locale's cards are also checked against the field rules for that locale.
+// Errors are tagged with their locale and grouped in `locales`, the result is valid only if every locale is.
+export const validateBentoLayoutForLocales = (
+  config: ValidationConfig,
+  linkedEntriesByLocale: { [locale: string]: LinkedEntry[] | null | undefined },
+  context: ValidationContext = {}
+): ValidationResult => {
+  const locales: { [locale: string]: ValidationResult } = {};
+  for (const locale in linkedEntriesByLocale) {
+    const result = validateBentoLayout(config, linkedEntriesByLocale[locale], { ...context, locale });
+    locales[locale] = toValidationResult(result.errors.map((error) => ({ ...error, locale })));
+  }
+
+  const errors = Object.values(locales).flatMap((result) => result.errors);
+  return { ...toValidationResult(errors), locales };
 };
@@ -0,0 +1,406 @@
+import { lintValidationConfig, lintValidationConfigs, toJsonPointer } from './configValidator';
+import { ValidationConfig } from '../types';
+import { vi } from 'vitest';
+
+describe('schema', () => {
+  it('should compile without strict mode warnings', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    vi.resetModules();
+
+    await import('./configValidator');
+
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('lintValidationConfig', () => {
+  const baseConfig: ValidationConfig = {
+    layoutType: 'test-layout',
+    targetContentType: 'TestContainer',
+    validateField: ['testField'],
+    positions: {
+      pos1: { index: 0, allowedTypes: ['typeA'] },
+      pos2: { index: 1, allowedTypes: ['typeB', 'typeC'] },
+    },
+    limits: {
+      totalEntries: 2,
+      typeLimits: { typeA: 1 },
+    },
+  };
+
+  it('should return no issues for a valid config', () => {
+    expect(lintValidationConfig(baseConfig)).toEqual([]);
+  });
+
+  // --- Schema ---
+  it('should report an index that is neither an integer nor a selector', () => {
+    const config = { ...baseConfig, positions: { ...baseConfig.positions, pos1: { index: 1.5, allowedTypes: ['typeA'] } } };
+    expect(lintValidationConfig(config)).toContainEqual({ path: '/positions/pos1/index', message: 'must be integer.' });
+  });
+
+  it('should report allowedTypes that is not an array', () => {
+    const config = { ...baseConfig, positions: { ...baseConfig.positions, pos2: { index: 1, allowedTypes: 'typeB' } } };
+    expect(lintValidationConfig(config)).toContainEqual({ path: '/positions/pos2/allowedTypes', message: 'must be array.' });
+  });
+
+  it('should report missing required properties at their own path', () => {
+    const { limits, ...configWithoutLimits } = baseConfig;
+    expect(lintValidationConfig(configWithoutLimits)).toContainEqual({ path: '/limits', message: 'is required.' });
+  });
+
+  it('should report unknown properties', () => {
+    const config = { ...baseConfig, limits: { ...baseConfig.limits, totalEntires: 2 } };
+    expect(lintValidationConfig(config)).toContainEqual({
+      path: '/limits/totalEntires',
+      message: 'is not a recognised property.',
+    });
+  });
+
+  it('should escape position keys in paths', () => {
+    const config = { ...baseConfig, positions: { 'left/top': { index: 'first', allowedTypes: ['typeA'] } } };
+    expect(lintValidationConfig(config)).toContainEqual({
+      path: '/positions/left~1top/index',
+      message: 'must match pattern "^(\\d+\\.\\.(\\d+)?|last|rest)$".',
+    });
+  });
+
+  it('should report an unknown enforcement mode', () => {
+    const config = { ...baseConfig, enforcement: 'strict' };
+    expect(lintValidationConfig(config)).toContainEqual({
+      path: '/enforcement',
+      message: 'must be equal to one of the allowed values.',
+    });
+  });
+
+  it('should report a non-boolean allowEmpty', () => {
+    const config = { ...baseConfig, allowEmpty: 'yes' };
+    expect(lintValidationConfig(config)).toEqual([{ path: '/allowEmpty', message: 'must be boolean.' }]);
+  });
+
+  it('should report an unknown entry status or severity', () => {
+    const config = { ...baseConfig, entryStatus: { draft: 'error', changed: 'info', deleted: 'error' } };
+    const issues = lintValidationConfig(config);
+    expect(issues).toContainEqual({ path: '/entryStatus/deleted', message: 'is not a recognised property.' });
+    expect(issues).toContainEqual({ path: '/entryStatus/changed', message: 'must be equal to one of the allowed values.' });
+  });
+
+  // --- Field rules ---
+  it('should accept field rules on a position', () => {
+    const fields = {
+      heroImage: { required: true, asset: { minWidth: 1200, aspectRatio: '16:9' } },
+      title: { maxLength: 60, regex: '^\\S' },
+      theme: { enum: ['light', 'dark'] },
+      cta: { forbidden: true },
+    };
+    const config = { ...baseConfig, positions: { ...baseConfig.positions, pos1: { index: 0, allowedTypes: ['typeA'], fields } } };
+    expect(lintValidationConfig(config)).toEqual([]);
+  });
+
+  it('should report malformed field rules', () => {
+    const fields = { heroImage: { asset: { aspectRatio: '16/9' } }, title: { maxLenght: 60 } };
+    const config = { ...baseConfig, positions: { ...baseConfig.positions, pos1: { index: 0, allowedTypes: ['typeA'], fields } } };
+    const issues = lintValidationConfig(config);
+    expect(issues).toContainEqual({
+      path: '/positions/pos1/fields/heroImage/asset/aspectRatio',
+      message: 'must match pattern "^[1-9]\\d*(\\.\\d+)?:[1-9]\\d*(\\.\\d+)?$".',
+    });
+    expect(issues).toContainEqual({ path: '/positions/pos1/fields/title/maxLenght', message: 'is not a recognised property.' });
+  });
+
+  it('should report contradicting field rules and invalid regular expressions', () => {
+    const fields = {
+      title: { required: true, forbidden: true, regex: '[' },
+      heroImage: { asset: { minWidth: 1200, maxWidth: 800 } },
+    };
+    const config = { ...baseConfig, positions: { ...baseConfig.positions, pos1: { index: 0, allowedTypes: ['typeA'], fields } } };
+    const issues = lintValidationConfig(config);
+    expect(issues).toContainEqual({
+      path: '/positions/pos1/fields/title/forbidden',
+      message: 'A field cannot be both required and forbidden.',
+    });
+    expect(issues).toContainEqual({
+      path: '/positions/pos1/fields/title/regex',
+      message: expect.stringContaining('is not a valid regular expression'),
+    });
+    expect(issues).toContainEqual({
+      path: '/positions/pos1/fields/heroImage/asset/minWidth',
+      message: 'minWidth (1200) must not be greater than maxWidth (800).',
+    });
+  });
+
+  it('should report a non-object config', () => {
+    expect(lintValidationConfig(null)).toEqual([{ path: '/', message: 'must be object.' }]);
+  });
+
+  // --- Layout rules ---
+  it('should report duplicate position indexes', () => {
+    const config = { ...baseConfig, positions: { ...baseConfig.positions, pos2: { index: 0, allowedTypes: ['typeB'] } } };
+    expect(lintValidationConfig(config)).toContainEqual({
+      path: '/positions/pos2/index',
+      message: "Index 0 is already used by position 'pos1'.",
+    });
+  });
+
+  it('should report totalEntries smaller than the number of positions', () => {
+    const config = { ...baseConfig, limits: { totalEntries: 1 } };
+    const issues = lintValidationConfig(config);
+    expect(issues).toContainEqual({
+      path: '/limits/totalEntries',
+      message: 'totalEntries (at most 1) is smaller than the number of positions (2).',
+    });
+    expect(issues).toContainEqual({
+      path: '/positions/pos2/index',
+      message: 'Index 1 can never be filled because totalEntries allows at most 1.',
+    });
+  });
+
+  // --- Position selectors ---
+  it('should accept negative indexes, last, rest, ranges and patterns', () => {
+    const config = {
+      ...baseConfig,
+      positions: {
+        hero: { index: 0, allowedTypes: ['typeA'] },
+        middle: { index: '1..4', pattern: [['typeA'], ['typeB']] },
+        footer: { index: 'last', allowedTypes: ['typeC'] },
+        beforeFooter: { index: -2, allowedTypes: ['typeB', 'typeC'] },
+        others: { index: 'rest', allowedTypes: ['typeB'] },
+      },
+      limits: { totalEntries: { min: 3 } },
+    };
+    expect(lintValidationConfig(config)).toEqual([]);
+  });
+
+  it('should report positions without types or with both allowedTypes and a pattern', () => {
+    const config = {
+      ...baseConfig,
+      positions: { pos1: { index: 0 }, pos2: { index: 1, allowedTypes: ['typeB'], pattern: [['typeB']] } },
+    };
+    expect(lintValidationConfig(config)).toEqual([
+      { path: '/positions/pos1/allowedTypes', message: 'is required unless a pattern is given.' },
+      { path: '/positions/pos2/pattern', message: 'Use either allowedTypes or pattern, not both.' },
+    ]);
+  });
+
+  it('should report an empty range and selectors used twice', () => {
+    const config = {
+      ...baseConfig,
+      positions: {
+        pos1: { index: -1, allowedTypes: ['typeA'] },
+        pos2: { index: 'last', allowedTypes: ['typeB'] },
+        pos3: { index: '5..2', allowedTypes: ['typeB'] },
+      },
+      limits: { totalEntries: { min: 1 } },
+    };
+    expect(lintValidationConfig(config)).toEqual([
+      { path: '/positions/pos2/index', message: "Index last is already used by position 'pos1'." },
+      { path: '/positions/pos3/index', message: 'Range 5..2 is empty because its start is greater than its end.' },
+    ]);
+  });
+
+  it('should report a negative index reaching before the first card totalEntries allows', () => {
+    const config = { ...baseConfig, positions: { pos1: { index: -3, allowedTypes: ['typeA'] } } };
+    expect(lintValidationConfig(config)).toEqual([
+      { path: '/positions/pos1/index', message: 'Index -3 can never be filled because totalEntries allows at most 2.' },
+    ]);
+  });
+
+  // --- Grid geometry ---
+  describe('with a grid', () => {
+    // 1 tall card on the left, 2 stacked on the right. A single column on mobile.
+    const gridConfig = {
+      ...baseConfig,
+      grid: { columns: 2, rows: 2, breakpoints: { mobile: { columns: 1 } } },
+      positions: {
+        left: { index: 0, allowedTypes: ['typeA'], grid: { row: 1, column: 1, rowSpan: 2, breakpoints: { mobile: { row: 1, column: 1 } } } },
+        top: { index: 1, allowedTypes: ['typeB'], grid: { row: 1, column: 2, breakpoints: { mobile: { row: 2, column: 1 } } } },
+        bottom: { index: 2, allowedTypes: ['typeB'], grid: { row: 2, column: 2, breakpoints: { mobile: { row: 3, column: 1 } } } },
+      },
+      limits: { totalEntries: 3 },
+    };
+
+    it('should accept positions that fill the grid at every breakpoint', () => {
+      expect(lintValidationConfig(gridConfig)).toEqual([]);
+    });
+
+    it('should report overlapping positions and cells no position covers', () => {
+      const config = {
+        ...gridConfig,
+        positions: {
+          ...gridConfig.positions,
+          bottom: { ...gridConfig.positions.bottom, grid: { ...gridConfig.positions.bottom.grid, row: 1 } },
+        },
+      };
+      expect(lintValidationConfig(config)).toEqual([
+        { path: '/positions/bottom/grid', message: "Overlaps position 'top' at row 1, column 2." },
+        { path: '/grid', message: 'No position covers row 2, column 2.' },
+      ]);
+    });
+
+    it('should report placements outside the grid of a breakpoint', () => {
+      const config = {
+        ...gridConfig,
+        positions: {
+          ...gridConfig.positions,
+          top: { ...gridConfig.positions.top, grid: { row: 1, column: 2, breakpoints: { mobile: { row: 2, column: 2 } } } },
+        },
+      };
+      expect(lintValidationConfig(config)).toEqual([
+        { path: '/positions/top/grid/breakpoints/mobile', message: "Ends in column 2 at breakpoint 'mobile', but the grid has 1 columns." },
+        { path: '/grid/breakpoints/mobile', message: "No position covers row 2, column 1 at breakpoint 'mobile'." },
+      ]);
+    });
+
+    it('should report missing placements and unknown breakpoints', () => {
+      const { grid, ...top } = gridConfig.positions.top;
+      const config = {
+        ...gridConfig,
+        positions: {
+          ...gridConfig.positions,
+          top,
+          bottom: { ...gridConfig.positions.bottom, grid: { row: 2, column: 2, breakpoints: { tablet: { row: 1, column: 1 } } } },
+        },
+      };
+      expect(lintValidationConfig(config)).toEqual([
+        { path: '/positions/top/grid', message: 'is required when the layout defines a grid.' },
+        { path: '/positions/bottom/grid/breakpoints/tablet', message: "Breakpoint 'tablet' is not defined in the grid of the layout." },
+      ]);
+    });
+
+    it('should report a placement without a grid on the layout or without a fixed index', () => {
+      const { grid, ...withoutGrid } = gridConfig;
+      expect(lintValidationConfig({ ...withoutGrid, positions: { left: gridConfig.positions.left } })).toContainEqual({
+        path: '/positions/left/grid',
+        message: 'requires a grid on the layout.',
+      });
+      const ranged = { ...gridConfig, positions: { left: { ...gridConfig.positions.left, index: '0..' } }, limits: { totalEntries: { min: 1 } } };
+      expect(lintValidationConfig(ranged)).toEqual([
+        { path: '/positions/left/grid', message: 'A grid placement needs a fixed index.' },
+      ]);
+    });
+
+    it('should report a placement that is not a valid area', () => {
+      const config = { ...gridConfig, positions: { left: { index: 0, allowedTypes: ['typeA'], grid: { row: 0, column: 1 } } } };
+      expect(lintValidationConfig(config)).toEqual([{ path: '/positions/left/grid/row', message: 'must be >= 1.' }]);
+    });
+
+    it('should report grid lines and spans beyond the largest grid', () => {
+      const config = {
+        ...gridConfig,
+        grid: { columns: 2, rows: 1e9 },
+        positions: { left: { index: 0, allowedTypes: ['typeA'], grid: { row: 1, column: 1, rowSpan: 1e9 } } },
+      };
+      expect(lintValidationConfig(config)).toEqual([
+        { path: '/grid/rows', message: 'must be <= 100.' },
+        { path: '/positions/left/grid/rowSpan', message: 'must be <= 100.' },
+      ]);
+    });
+  });
+
+  // --- Range limits ---
+  it('should accept min/max ranges for totalEntries and typeLimits', () => {
+    const config = {
+      ...baseConfig,
+      limits: { totalEntries: { min: 2, max: 8 }, typeLimits: { typeA: { min: 1 }, typeB: 3 } },
+    };
+    expect(lintValidationConfig(config)).toEqual([]);
+  });
+
+  it('should report an invalid range bound at its own path', () => {
+    const config = { ...baseConfig, limits: { totalEntries: { min: -1, max: 8 } } };
+    expect(lintValidationConfig(config)).toEqual([{ path: '/limits/totalEntries/min', message: 'must be >= 0.' }]);
+  });
+
+  it('should report a limit that is neither a number nor a range', () => {
+    const config = { ...baseConfig, limits: { totalEntries: 'three' } };
+    expect(lintValidationConfig(config)).toEqual([{ path: '/limits/totalEntries', message: 'must be integer.' }]);
+  });
+
+  it('should report an empty range', () => {
+    const config = { ...baseConfig, limits: { totalEntries: 2, typeLimits: { typeA: {} } } };
+    expect(lintValidationConfig(config)).toEqual([
+      { path: '/limits/typeLimits/typeA', message: 'must NOT have fewer than 1 properties.' },
+    ]);
+  });
+
+  it('should report a range whose min is greater than its max', () => {
+    const config = { ...baseConfig, limits: { totalEntries: { min: 5, max: 3 }, typeLimits: { typeA: { min: 2, max: 1 } } } };
+    const issues = lintValidationConfig(config);
+    expect(issues).toContainEqual({ path: '/limits/totalEntries', message: 'min (5) must not be greater than max (3).' });
+    expect(issues).toContainEqual({ path: '/limits/typeLimits/typeA', message: 'min (2) must not be greater than max (1).' });
+  });
+
+  it('should allow any index when totalEntries has no maximum', () => {
+    const config = {
+      ...baseConfig,
+      positions: { ...baseConfig.positions, pos3: { index: 12, allowedTypes: ['typeA'] } },
+      limits: { totalEntries: { min: 1 } },
+    };
+    expect(lintValidationConfig(config)).toEqual([]);
+  });
+
+  it('should prefix paths with the given base path', () => {
+    const config = { ...baseConfig, layoutType: '' };
+    expect(lintValidationConfig(config, '/3')).toContainEqual({
+      path: '/3/layoutType',
+      message: 'must NOT have fewer than 1 characters.',
+    });
+  });
+});
+
+describe('lintValidationConfigs', () => {
+  const config: ValidationConfig = {
+    layoutType: 'bento-1-2',
+    targetContentType: 'CardsContainer',
+    validateField: ['contentCards'],
+    positions: { pos1: { index: 0, allowedTypes: ['CardTypeA'] } },
+    limits: { totalEntries: 1 },
+  };
+
+  it('should return no issues for a valid list', () => {
+    expect(lintValidationConfigs([config, { ...config, layoutType: 'bento-2-1' }])).toEqual([]);
+  });
+
+  it('should address issues by array index', () => {
+    const issues = lintValidationConfigs([config, { ...config, limits: { totalEntries: -1 } }]);
+    expect(issues).toContainEqual({ path: '/1/limits/totalEntries', message: 'must be >= 0.' });
+  });
+
+  it('should report the same layoutType defined twice for a content type', () => {
+    expect(lintValidationConfigs([config, config])).toEqual([
+      { path: '/1/layoutType', message: "Layout 'bento-1-2' is already defined for 'CardsContainer' at /0." },
+    ]);
+  });
+
+  it('should report layouts for the same field that disagree on layoutField', () => {
+    const bento12 = { ...config, layoutField: 'layout' };
+    const bento21 = { ...config, layoutType: 'bento-2-1', layoutField: 'variant' };
+    expect(lintValidationConfigs([bento12, bento21])).toEqual([
+      {
+        path: '/1/layoutField',
+        message: "Layouts for 'CardsContainer.contentCards' must use the same layoutField, but /0 uses 'layout'.",
+      },
+    ]);
+  });
+
+  it('should report a child layout that is not defined', () => {
+    const container = {
+      ...config,
+      positions: { pos1: { index: 0, allowedTypes: ['CardTypeA'], childLayout: { field: 'items', layoutType: 'column' } } },
+    };
+    expect(lintValidationConfigs([container])).toEqual([
+      { path: '/0/positions/pos1/childLayout/layoutType', message: "Layout 'column' is not defined." },
+    ]);
+    expect(lintValidationConfigs([container, { ...config, layoutType: 'column', targetContentType: 'CardTypeA' }])).toEqual([]);
+  });
+
+  it('should report a value that is not an array', () => {
+    expect(lintValidationConfigs({})).toEqual([{ path: '/', message: 'must be an array of layouts.' }]);
+  });
+});
+
+describe('toJsonPointer', () => {
+  it('should escape ~ and / in segments', () => {
+    expect(toJsonPointer('positions', 'a~b/c', 0)).toBe('/positions/a~0b~1c/0');
+  });
+});
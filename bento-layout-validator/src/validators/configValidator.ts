@@ -0,0 +1,514 @@
+import Ajv, { ErrorObject } from 'ajv';
+import { ConfigIssue, CountLimit, FieldRule, ValidationConfig } from '../types';
+import { getTotalEntriesRange } from './limits';
+import { parsePositionIndex } from './positions';
+import { getCoveredCells, getGridPlacements, getGridSize, MAX_GRID_LINES } from './gridGeometry';
+
+// A count limit is either a non-negative integer or a { min, max } range.
+// if/then/else (rather than oneOf) keeps the errors specific to the form that was used.
+const countLimitSchema = {
+  if: { type: 'object' },
+  then: {
+    type: 'object',
+    minProperties: 1,
+    additionalProperties: false,
+    properties: {
+      min: { type: 'integer', minimum: 0 },
+      max: { type: 'integer', minimum: 0 },
+    },
+  },
+  else: { type: 'integer', minimum: 0 },
+} as const;
+
+// A position index is an integer (negative ones count from the end) or one of "last", "rest", "1..5" and "1.."
+const positionIndexSchema = {
+  if: { type: 'string' },
+  then: { type: 'string', pattern: '^(\\d+\\.\\.(\\d+)?|last|rest)$' },
+  else: { type: 'integer' },
+} as const;
+
+const typeListSchema = {
+  type: 'array',
+  minItems: 1,
+  items: { type: 'string', minLength: 1 },
+} as const;
+
+const dimensionSchema = { type: 'integer', minimum: 1 } as const;
+
+// Constraints on a single field of the card at a position.
+// aspectRatio is a positive number or a "width:height" string, pattern only applies to strings.
+const fieldRuleSchema = {
+  type: 'object',
+  minProperties: 1,
+  additionalProperties: false,
+  properties: {
+    required: { type: 'boolean' },
+    forbidden: { type: 'boolean' },
+    maxLength: { type: 'integer', minimum: 0 },
+    regex: { type: 'string', minLength: 1 },
+    enum: {
+      type: 'array',
+      minItems: 1,
+      items: { type: ['string', 'number'] },
+    },
+    asset: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        minWidth: dimensionSchema,
+        maxWidth: dimensionSchema,
+        minHeight: dimensionSchema,
+        maxHeight: dimensionSchema,
+        aspectRatio: { type: ['number', 'string'], exclusiveMinimum: 0, pattern: '^[1-9]\\d*(\\.\\d+)?:[1-9]\\d*(\\.\\d+)?$' },
+        aspectRatioTolerance: { type: 'number', minimum: 0 },
+      },
+    },
+  },
+} as const;
+
+const gridLineSchema = { type: 'integer', minimum: 1, maximum: MAX_GRID_LINES } as const;
+
+// Cells a position spans in the grid of its layout
+const gridPlacementSchema = {
+  type: 'object',
+  required: ['row', 'column'],
+  additionalProperties: false,
+  properties: {
+    row: gridLineSchema,
+    column: gridLineSchema,
+    rowSpan: gridLineSchema,
+    colSpan: gridLineSchema,
+  },
+} as const;
+
+const gridSizeSchema = {
+  type: 'object',
+  required: ['columns'],
+  additionalProperties: false,
+  properties: {
+    columns: gridLineSchema,
+    rows: gridLineSchema,
+  },
+} as const;
+
+// Formal JSON Schema for a single layout configuration.
+// Structural rules live here; rules spanning several properties are checked in lintValidationConfig below.
+export const validationConfigSchema = {
+  type: 'object',
+  required: ['layoutType', 'targetContentType', 'validateField', 'positions', 'limits'],
+  additionalProperties: false,
+  properties: {
+    layoutType: { type: 'string', minLength: 1 },
+    targetContentType: { type: 'string', minLength: 1 },
+    validateField: {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', minLength: 1 },
+    },
+    layoutField: { type: 'string', minLength: 1 },
+    enforcement: { type: 'string', enum: ['warn', 'block'] },
+    allowEmpty: { type: 'boolean' },
+    validateAllLocales: { type: 'boolean' },
+    entryStatus: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        draft: { type: 'string', enum: ['error', 'warning'] },
+        changed: { type: 'string', enum: ['error', 'warning'] },
+        archived: { type: 'string', enum: ['error', 'warning'] },
+      },
+    },
+    grid: {
+      ...gridSizeSchema,
+      properties: {
+        ...gridSizeSchema.properties,
+        breakpoints: { type: 'object', additionalProperties: gridSizeSchema },
+      },
+    },
+    positions: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['index'],
+        additionalProperties: false,
+        properties: {
+          index: positionIndexSchema,
+          allowedTypes: typeListSchema,
+          pattern: {
+            type: 'array',
+            minItems: 1,
+            items: typeListSchema,
+          },
+          fields: {
+            type: 'object',
+            additionalProperties: fieldRuleSchema,
+          },
+          childLayout: {
+            type: 'object',
+            required: ['field', 'layoutType'],
+            additionalProperties: false,
+            properties: {
+              field: { type: 'string', minLength: 1 },
+              layoutType: { type: 'string', minLength: 1 },
+            },
+          },
+          grid: {
+            ...gridPlacementSchema,
+            properties: {
+              ...gridPlacementSchema.properties,
+              breakpoints: { type: 'object', additionalProperties: gridPlacementSchema },
+            },
+          },
+        },
+      },
+    },
+    limits: {
+      type: 'object',
+      required: ['totalEntries'],
+      additionalProperties: false,
+      properties: {
+        totalEntries: countLimitSchema,
+        typeLimits: {
+          type: 'object',
+          additionalProperties: countLimitSchema,
+        },
+      },
+    },
+  },
+} as const;
+
+// Schema for the list of layouts stored in the installation parameters
+export const validationConfigsSchema = {
+  type: 'array',
+  items: validationConfigSchema,
+} as const;
+
+// Union types such as a number or a ratio string are intended, strict mode would warn about them on every load
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+const validateConfigSchema = ajv.compile(validationConfigSchema);
+
+// Escapes a single JSON pointer segment (RFC 6901)
+const escapePointerSegment = (segment: string | number): string =>
+  String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const toJsonPointer = (...segments: (string | number)[]): string =>
+  segments.map((segment) => `/${escapePointerSegment(segment)}`).join('');
+
+// Converts an Ajv error into an issue whose path points at the offending property.
+// For missing or unknown properties Ajv reports the parent object, so the property name is appended.
+const toConfigIssue = (error: ErrorObject, basePath: string): ConfigIssue => {
+  const path = `${basePath}${error.instancePath}`;
+
+  if (error.keyword === 'required') {
+    return {
+      path: `${path}${toJsonPointer(error.params.missingProperty)}`,
+      message: 'is required.',
+    };
+  }
+
+  if (error.keyword === 'additionalProperties') {
+    return {
+      path: `${path}${toJsonPointer(error.params.additionalProperty)}`,
+      message: 'is not a recognised property.',
+    };
+  }
+
+  return { path: path || '/', message: `${error.message}.` };
+};
+
+// Reports a range whose minimum is greater than its maximum
+const lintRange = (limit: CountLimit, path: string): ConfigIssue[] => {
+  if (typeof limit === 'number' || limit.min === undefined || limit.max === undefined || limit.min <= limit.max) {
+    return [];
+  }
+  return [{ path, message: `min (${limit.min}) must not be greater than max (${limit.max}).` }];
+};
+
+// Reports field rules that contradict themselves or can never match
+const lintFieldRule = (rule: FieldRule, path: string): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  if (rule.required && rule.forbidden) {
+    issues.push({ path: `${path}/forbidden`, message: 'A field cannot be both required and forbidden.' });
+  }
+
+  if (rule.regex !== undefined) {
+    try {
+      new RegExp(rule.regex);
+    } catch (error) {
+      issues.push({ path: `${path}/regex`, message: `is not a valid regular expression (${(error as Error).message}).` });
+    }
+  }
+
+  const asset = rule.asset ?? {};
+  for (const dimension of ['Width', 'Height'] as const) {
+    const min = asset[`min${dimension}`];
+    const max = asset[`max${dimension}`];
+    if (min !== undefined && max !== undefined && min > max) {
+      issues.push({
+        path: `${path}/asset/min${dimension}`,
+        message: `min${dimension} (${min}) must not be greater than max${dimension} (${max}).`,
+      });
+    }
+  }
+
+  return issues;
+};
+
+// Reports grid placements that do not fit together: cards outside the grid, cards overlapping each other,
+// and cells no card covers. Checked for the base grid and for each of its breakpoints.
+const lintGrid = (config: ValidationConfig, basePath: string): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const { grid } = config;
+  const breakpoints = Object.keys(grid?.breakpoints ?? {});
+
+  for (const positionKey in config.positions) {
+    const position = config.positions[positionKey];
+    const gridPath = `${basePath}${toJsonPointer('positions', positionKey, 'grid')}`;
+    const isFixed = parsePositionIndex(position.index)?.kind === 'fixed';
+
+    if (!position.grid) {
+      if (grid && isFixed) {
+        issues.push({ path: gridPath, message: 'is required when the layout defines a grid.' });
+      }
+      continue;
+    }
+    if (!grid) {
+      issues.push({ path: gridPath, message: 'requires a grid on the layout.' });
+    } else if (!isFixed) {
+      issues.push({ path: gridPath, message: 'A grid placement needs a fixed index.' });
+    }
+    for (const breakpoint in position.grid.breakpoints) {
+      if (!breakpoints.includes(breakpoint)) {
+        issues.push({
+          path: `${gridPath}${toJsonPointer('breakpoints', breakpoint)}`,
+          message: `Breakpoint '${breakpoint}' is not defined in the grid of the layout.`,
+        });
+      }
+    }
+  }
+
+  if (!grid || issues.length > 0) {
+    return issues;
+  }
+
+  for (const breakpoint of [undefined, ...breakpoints]) {
+    const size = getGridSize(config, breakpoint)!;
+    const sizePath = `${basePath}${breakpoint === undefined ? toJsonPointer('grid') : toJsonPointer('grid', 'breakpoints', breakpoint)}`;
+    const placementPath = (positionKey: string) =>
+      `${basePath}${toJsonPointer('positions', positionKey, 'grid')}${
+        breakpoint !== undefined && config.positions[positionKey].grid?.breakpoints?.[breakpoint]
+          ? toJsonPointer('breakpoints', breakpoint)
+          : ''
+      }`;
+    const where = breakpoint === undefined ? '' : ` at breakpoint '${breakpoint}'`;
+    const occupiedBy = new Map<string, string>();
+
+    getGridPlacements(config, breakpoint).forEach(({ positionKey, placement }) => {
+      const lastColumn = placement.column + placement.colSpan - 1;
+      const lastRow = placement.row + placement.rowSpan - 1;
+      if (lastColumn > size.columns) {
+        issues.push({
+          path: placementPath(positionKey),
+          message: `Ends in column ${lastColumn}${where}, but the grid has ${size.columns} columns.`,
+        });
+      }
+      if (lastRow > size.rows) {
+        issues.push({
+          path: placementPath(positionKey),
+          message: `Ends in row ${lastRow}${where}, but the grid has ${size.rows} rows.`,
+        });
+      }
+
+      // Cells outside the grid are reported above, a span reaching far beyond it is not walked cell by cell
+      const overlapped = new Set<string>();
+      getCoveredCells(placement, size).forEach(([row, column]) => {
+        const owner = occupiedBy.get(`${row}:${column}`);
+        if (owner === undefined) {
+          occupiedBy.set(`${row}:${column}`, positionKey);
+        } else if (!overlapped.has(owner)) {
+          // Reported once per pair of positions, at the first cell they share
+          overlapped.add(owner);
+          issues.push({
+            path: placementPath(positionKey),
+            message: `Overlaps position '${owner}' at row ${row}, column ${column}${where}.`,
+          });
+        }
+      });
+    });
+
+    const gaps: string[] = [];
+    for (let row = 1; row <= size.rows; row++) {
+      for (let column = 1; column <= size.columns; column++) {
+        if (!occupiedBy.has(`${row}:${column}`)) {
+          gaps.push(`row ${row}, column ${column}`);
+        }
+      }
+    }
+    if (gaps.length > 0) {
+      issues.push({ path: sizePath, message: `No position covers ${gaps.join('; ')}${where}.` });
+    }
+  }
+
+  return issues;
+};
+
+// Rules that JSON Schema cannot express. Only run once the config is structurally valid.
+const lintLayoutRules = (config: ValidationConfig, basePath: string): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+  const positionKeys = Object.keys(config.positions);
+  const positionsBySelector: { [selector: string]: string } = {};
+  const totalEntriesPath = `${basePath}${toJsonPointer('limits', 'totalEntries')}`;
+  // Without a maximum any index can be filled
+  const maxEntries = getTotalEntriesRange(config.limits.totalEntries).max;
+  let fixedPositionCount = 0;
+
+  issues.push(...lintRange(config.limits.totalEntries, totalEntriesPath));
+  for (const typeKey in config.limits.typeLimits) {
+    const typeLimit = config.limits.typeLimits[typeKey];
+    issues.push(...lintRange(typeLimit, `${basePath}${toJsonPointer('limits', 'typeLimits', typeKey)}`));
+  }
+
+  for (const positionKey of positionKeys) {
+    const { index, allowedTypes, pattern, fields = {} } = config.positions[positionKey];
+    const positionPath = `${basePath}${toJsonPointer('positions', positionKey)}`;
+    const indexPath = `${positionPath}/index`;
+    const selector = parsePositionIndex(index);
+
+    for (const fieldId in fields) {
+      issues.push(...lintFieldRule(fields[fieldId], `${positionPath}${toJsonPointer('fields', fieldId)}`));
+    }
+
+    if (!allowedTypes && !pattern) {
+      issues.push({ path: `${positionPath}/allowedTypes`, message: 'is required unless a pattern is given.' });
+    } else if (allowedTypes && pattern) {
+      issues.push({ path: `${positionPath}/pattern`, message: 'Use either allowedTypes or pattern, not both.' });
+    }
+
+    if (!selector) {
+      continue;
+    }
+
+    // "last" and -1 select the same card
+    const selectorKey = selector.kind === 'fixed' ? String(selector.index) : String(index);
+    if (positionsBySelector[selectorKey] !== undefined) {
+      issues.push({
+        path: indexPath,
+        message: `Index ${index} is already used by position '${positionsBySelector[selectorKey]}'.`,
+      });
+    } else {
+      positionsBySelector[selectorKey] = positionKey;
+    }
+
+    if (selector.kind === 'range' && selector.to !== undefined && selector.from > selector.to) {
+      issues.push({ path: indexPath, message: `Range ${index} is empty because its start is greater than its end.` });
+    }
+
+    if (selector.kind === 'fixed') {
+      fixedPositionCount++;
+      // Number of cards needed for the index to exist, e.g. 3 for index 2 as well as for index -3
+      const cardsNeeded = selector.index < 0 ? -selector.index : selector.index + 1;
+      if (maxEntries !== undefined && cardsNeeded > maxEntries) {
+        issues.push({
+          path: indexPath,
+          message: `Index ${index} can never be filled because totalEntries allows at most ${maxEntries}.`,
+        });
+      }
+    }
+  }
+
+  // Ranges and "rest" only apply to the cards present, so only fixed positions need a card each
+  if (maxEntries !== undefined && maxEntries < fixedPositionCount) {
+    issues.push({
+      path: totalEntriesPath,
+      message: `totalEntries (at most ${maxEntries}) is smaller than the number of positions (${fixedPositionCount}).`,
+    });
+  }
+
+  issues.push(...lintGrid(config, basePath));
+  return issues;
+};
+
+// Lints a single layout configuration. Returns an empty list when the config is usable.
+// `basePath` prefixes every issue path, which is how lintValidationConfigs addresses array items.
+export const lintValidationConfig = (config: unknown, basePath = ''): ConfigIssue[] => {
+  if (!validateConfigSchema(config)) {
+    // The failing branch of an if/then/else already explains the problem, the 'if' error adds nothing
+    return (validateConfigSchema.errors || [])
+      .filter((error) => error.keyword !== 'if')
+      .map((error) => toConfigIssue(error, basePath));
+  }
+
+  return lintLayoutRules(config as ValidationConfig, basePath);
+};
+
+// Lints the full list of layouts, e.g. the installation parameters authored in the ConfigScreen
+export const lintValidationConfigs = (configs: unknown): ConfigIssue[] => {
+  if (!Array.isArray(configs)) {
+    return [{ path: '/', message: 'must be an array of layouts.' }];
+  }
+
+  const issues: ConfigIssue[] = [];
+  const seenLayouts: { [key: string]: number } = {};
+  // First layout seen per content type field, used to check that they agree on the discriminator field
+  const layoutFieldOwners: { [key: string]: number } = {};
+  const usableConfigs: { config: ValidationConfig; i: number }[] = [];
+
+  configs.forEach((config, i) => {
+    const configIssues = lintValidationConfig(config, toJsonPointer(i));
+    issues.push(...configIssues);
+    if (configIssues.length > 0) {
+      return;
+    }
+    usableConfigs.push({ config: config as ValidationConfig, i });
+
+    // The same layoutType registered twice for a content type would make layout selection ambiguous
+    const { layoutType, targetContentType } = config as ValidationConfig;
+    const layoutKey = `${targetContentType}:${layoutType}`;
+    if (seenLayouts[layoutKey] !== undefined) {
+      issues.push({
+        path: toJsonPointer(i, 'layoutType'),
+        message: `Layout '${layoutType}' is already defined for '${targetContentType}' at ${toJsonPointer(seenLayouts[layoutKey])}.`,
+      });
+    } else {
+      seenLayouts[layoutKey] = i;
+    }
+
+    // Layouts sharing a reference field are told apart by a single discriminator field
+    const { validateField, layoutField } = config as ValidationConfig;
+    for (const fieldId of validateField) {
+      const fieldKey = `${targetContentType}:${fieldId}`;
+      const ownerIndex = layoutFieldOwners[fieldKey];
+      if (ownerIndex === undefined) {
+        layoutFieldOwners[fieldKey] = i;
+        continue;
+      }
+
+      const ownerLayoutField = (configs[ownerIndex] as ValidationConfig).layoutField;
+      if (ownerLayoutField !== layoutField) {
+        issues.push({
+          path: toJsonPointer(i, 'layoutField'),
+          message: `Layouts for '${targetContentType}.${fieldId}' must use the same layoutField, but ${toJsonPointer(ownerIndex)} uses ${ownerLayoutField ? `'${ownerLayoutField}'` : 'none'}.`,
+        });
+      }
+    }
+  });
+
+  // Child layouts are looked up by layoutType among all layouts, so they can only be checked once every layout is known
+  const layoutTypes = new Set(usableConfigs.map(({ config }) => config.layoutType));
+  usableConfigs.forEach(({ config, i }) => {
+    Object.entries(config.positions).forEach(([positionKey, { childLayout }]) => {
+      if (childLayout && !layoutTypes.has(childLayout.layoutType)) {
+        issues.push({
+          path: toJsonPointer(i, 'positions', positionKey, 'childLayout', 'layoutType'),
+          message: `Layout '${childLayout.layoutType}' is not defined.`,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+// Formats an issue for display, e.g. "/positions/pos1/index: must be >= 0."
+export const formatConfigIssue = (issue: ConfigIssue): string => `${issue.path}: ${issue.message}`;
@@ -0,0 +1,69 @@
+import { getEntryStatus, validateLinkedEntries } from './entryStatus';
+import { ValidationConfig } from '../types';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { createMockEntry, link } from '../../test/mocks';
+
+// A card of typeA, published with pending changes unless the sys says otherwise
+const createCard = (id: string, sys: Partial<EntryProps['sys']> = {}): EntryProps =>
+  createMockEntry(id, 'typeA', {}, { version: 2, publishedVersion: 1, ...sys });
+
+describe('getEntryStatus', () => {
+  it('should derive the publish state from the sys versions', () => {
+    expect(getEntryStatus(createCard('draft', { version: 1, publishedVersion: undefined }))).toBe('draft');
+    expect(getEntryStatus(createCard('published', { version: 2, publishedVersion: 1 }))).toBe('published');
+    expect(getEntryStatus(createCard('changed', { version: 5, publishedVersion: 3 }))).toBe('changed');
+    expect(getEntryStatus(createCard('archived', { version: 4, archivedVersion: 3 }))).toBe('archived');
+  });
+});
+
+describe('validateLinkedEntries', () => {
+  const config: ValidationConfig = {
+    layoutType: 'test-layout',
+    targetContentType: 'TestContainer',
+    validateField: ['testField'],
+    positions: {
+      pos1: { index: 0, allowedTypes: ['typeA'] },
+      pos2: { index: 1, allowedTypes: ['typeA'] },
+    },
+    limits: { totalEntries: { min: 2 } },
+  };
+
+  it('should report each card that cannot be resolved with its id and position', () => {
+    const errors = validateLinkedEntries(config, [createCard('entry1'), link('deleted1'), link('deleted2')]);
+
+    expect(errors).toEqual([
+      expect.objectContaining({ code: 'ENTRY_NOT_FOUND', severity: 'error', entryId: 'deleted1', index: 1, positionKey: 'pos2' }),
+      expect.objectContaining({ code: 'ENTRY_NOT_FOUND', entryId: 'deleted2', index: 2, positionKey: undefined }),
+    ]);
+    expect(errors[0].message).toBe(
+      "Linked entry 'deleted1' at position 1 (pos2) is missing or inaccessible. It may have been deleted."
+    );
+    expect(errors[1].message).toBe("Linked entry 'deleted2' at position 2 is missing or inaccessible. It may have been deleted.");
+  });
+
+  it('should not check the publish state without entryStatus rules', () => {
+    const entries = [createCard('entry1', { publishedVersion: undefined }), createCard('entry2', { archivedVersion: 1 })];
+    expect(validateLinkedEntries(config, entries)).toEqual([]);
+  });
+
+  it('should flag cards in the publish states configured in entryStatus with their severity', () => {
+    const strictConfig: ValidationConfig = { ...config, entryStatus: { draft: 'error', changed: 'warning' } };
+    const entries = [
+      createCard('draft', { version: 1, publishedVersion: undefined }),
+      createCard('changed', { version: 4, publishedVersion: 2 }),
+      createCard('archived', { archivedVersion: 1 }),
+      createCard('published'),
+    ];
+
+    expect(validateLinkedEntries(strictConfig, entries)).toEqual([
+      expect.objectContaining({ code: 'ENTRY_DRAFT', severity: 'error', entryId: 'draft', positionKey: 'pos1' }),
+      expect.objectContaining({ code: 'ENTRY_CHANGED', severity: 'warning', entryId: 'changed', positionKey: 'pos2' }),
+    ]);
+  });
+
+  it('should flag archived cards', () => {
+    const errors = validateLinkedEntries({ ...config, entryStatus: { archived: 'error' } }, [createCard('entry1', { archivedVersion: 1 })]);
+    expect(errors).toEqual([expect.objectContaining({ code: 'ENTRY_ARCHIVED', entryId: 'entry1' })]);
+    expect(errors[0].message).toBe("Linked entry 'entry1' at position 0 (pos1) is archived and will not appear on the live site.");
+  });
+});
@@ -0,0 +1,59 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import {
+  EntryLink,
+  EntryStatus,
+  EntryStatusRules,
+  LinkedEntry,
+  ValidationConfig,
+  ValidationError,
+  ValidationErrorCode,
+} from '../types';
+import { createValidationError } from './validationMessages';
+import { resolvePositions } from './positions';
+
+const statusCodes: { [status in keyof EntryStatusRules]-?: ValidationErrorCode } = {
+  draft: 'ENTRY_DRAFT',
+  changed: 'ENTRY_CHANGED',
+  archived: 'ENTRY_ARCHIVED',
+};
+
+// A link the resolver could not turn into an entry, i.e. a deleted or inaccessible card
+export const isUnresolvedLink = (entry: LinkedEntry): entry is EntryLink => entry.sys.type === 'Link';
+
+// Derives the publish state like the Contentful web app: archived wins, an entry that was never published is a draft,
+// and an entry whose version is more than one ahead of its published version has unpublished changes
+export const getEntryStatus = (entry: EntryProps): EntryStatus => {
+  const { archivedVersion, publishedVersion, version } = entry.sys;
+  if (archivedVersion) {
+    return 'archived';
+  }
+  if (!publishedVersion) {
+    return 'draft';
+  }
+  return version > publishedVersion + 1 ? 'changed' : 'published';
+};
+
+// Reports every card that cannot be resolved, and every card in a publish state flagged by the layout's entryStatus rules
+export const validateLinkedEntries = (config: ValidationConfig, linkedEntries: LinkedEntry[]): ValidationError[] => {
+  const positionKeys: { [index: number]: string } = {};
+  resolvePositions(config, linkedEntries.length).forEach(({ positionKey, index }) => {
+    positionKeys[index] = positionKeys[index] ?? positionKey;
+  });
+
+  const errors: ValidationError[] = [];
+  linkedEntries.forEach((entry, index) => {
+    const location = { index, positionKey: positionKeys[index], entryId: entry.sys.id };
+
+    if (isUnresolvedLink(entry)) {
+      errors.push(createValidationError('ENTRY_NOT_FOUND', location));
+      return;
+    }
+
+    const status = getEntryStatus(entry);
+    const severity = status === 'published' ? undefined : config.entryStatus?.[status];
+    if (status !== 'published' && severity) {
+      errors.push(createValidationError(statusCodes[status], { ...location, severity }));
+    }
+  });
+  return errors;
+};
@@ -0,0 +1,185 @@
+import { getRuleAssetIds, parseAspectRatio, validateFieldRules } from './fieldRules';
+import { getLocalizedValue } from './localizedValue';
+import { PositionRule, ValidationConfig } from '../types';
+import { ResolvedPosition } from './positions';
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AssetProps } from 'contentful-management/dist/typings/entities/asset';
+import { assetLink, createMockEntry } from '../../test/mocks';
+
+const createMockAsset = (id: string, image?: { width: number; height: number }): AssetProps =>
+  ({
+    sys: { id, type: 'Asset', version: 1 },
+    fields: {
+      title: { 'en-US': id },
+      file: { 'en-US': { fileName: `${id}.jpg`, contentType: 'image/jpeg', details: image ? { image } : {} } },
+    },
+  } as unknown as AssetProps);
+
+const context = { locale: 'en-US', defaultLocale: 'en-US' };
+
+// The position rule applied to the card at its fixed index, under the key 'hero'
+const atHero = (rule: PositionRule): ResolvedPosition => ({
+  positionKey: 'hero',
+  index: Number(rule.index),
+  allowedTypes: rule.allowedTypes ?? [],
+  rule,
+});
+
+const codesOf = (positionRule: PositionRule, entry: EntryProps, ruleContext = {}) =>
+  validateFieldRules(atHero(positionRule), entry, { ...context, ...ruleContext }).map((error) => error.code);
+
+describe('getLocalizedValue', () => {
+  const values = { 'en-US': 'Hello', 'de-DE': 'Hallo' };
+
+  it('should pick the requested locale', () => {
+    expect(getLocalizedValue(values, { locale: 'de-DE', defaultLocale: 'en-US' })).toBe('Hallo');
+  });
+
+  it('should fall back to the default locale', () => {
+    expect(getLocalizedValue(values, { locale: 'fr-FR', defaultLocale: 'en-US' })).toBe('Hello');
+    expect(getLocalizedValue({ 'en-US': 'Hello' }, { locale: 'de-DE' })).toBeUndefined();
+  });
+
+  it('should use the first value without a locale', () => {
+    expect(getLocalizedValue(values, {})).toBe('Hello');
+    expect(getLocalizedValue(undefined, {})).toBeUndefined();
+  });
+});
+
+describe('parseAspectRatio', () => {
+  it('should accept a ratio string or a number', () => {
+    expect(parseAspectRatio('16:9')).toBeCloseTo(1.778, 3);
+    expect(parseAspectRatio(1.5)).toBe(1.5);
+  });
+});
+
+describe('validateFieldRules', () => {
+  it('should report a missing required field with its location', () => {
+    const rule: PositionRule = { index: 0, allowedTypes: ['CardTypeA'], fields: { title: { required: true } } };
+    const errors = validateFieldRules(atHero(rule), createMockEntry('card1', 'CardTypeA', { title: { 'en-US': '' } }), context);
+
+    expect(errors).toEqual([
+      expect.objectContaining({
+        code: 'FIELD_REQUIRED',
+        positionKey: 'hero',
+        index: 0,
+        entryId: 'card1',
+        params: { fieldId: 'title' },
+        message: "Field 'title' of the card at position 0 (hero) is required.",
+      }),
+    ]);
+  });
+
+  it('should check the value of the current locale', () => {
+    const rule: PositionRule = { index: 0, allowedTypes: ['CardTypeA'], fields: { title: { required: true } } };
+    const entry = createMockEntry('card1', 'CardTypeA', { title: { 'en-US': 'Title' } });
+
+    expect(codesOf(rule, entry)).toEqual([]);
+    expect(codesOf(rule, entry, { locale: 'de-DE', defaultLocale: undefined })).toEqual(['FIELD_REQUIRED']);
+  });
+
+  it('should report a forbidden field that has a value', () => {
+    const rule: PositionRule = { index: 2, allowedTypes: ['CardTypeB'], fields: { cta: { forbidden: true } } };
+    expect(codesOf(rule, createMockEntry('card1', 'CardTypeA', { cta: { 'en-US': { sys: { id: 'cta1' } } } }))).toEqual(['FIELD_FORBIDDEN']);
+    expect(codesOf(rule, createMockEntry('card1', 'CardTypeA', {}))).toEqual([]);
+  });
+
+  it('should check maxLength, regex and enum of a text value', () => {
+    const rule: PositionRule = {
+      index: 0,
+      allowedTypes: ['CardTypeA'],
+      fields: {
+        title: { maxLength: 10, regex: '^[A-Z]' },
+        theme: { enum: ['light', 'dark'] },
+      },
+    };
+    const errors = validateFieldRules(
+      atHero(rule),
+      createMockEntry('card1', 'CardTypeA', { title: { 'en-US': 'a very long title' }, theme: { 'en-US': 'neon' } }),
+      context
+    );
+
+    expect(errors.map((error) => error.message)).toEqual([
+      "Field 'title' of the card at position 0 (hero) has 17 characters, but at most 10 are allowed.",
+      "Field 'title' of the card at position 0 (hero) does not match the pattern ^[A-Z].",
+      "Field 'theme' of the card at position 0 (hero) has the value 'neon'. Allowed values: light, dark.",
+    ]);
+  });
+
+  it('should check every item of a list value against enum', () => {
+    const rule: PositionRule = { index: 0, allowedTypes: ['CardTypeA'], fields: { tags: { enum: ['new', 'sale'] } } };
+    const errors = validateFieldRules(atHero(rule), createMockEntry('card1', 'CardTypeA', { tags: { 'en-US': ['new', 'old'] } }), context);
+    expect(errors).toEqual([expect.objectContaining({ code: 'FIELD_VALUE_NOT_ALLOWED', params: expect.objectContaining({ value: 'old' }) })]);
+  });
+
+  describe('asset rules', () => {
+    const rule: PositionRule = {
+      index: 0,
+      allowedTypes: ['CardTypeA'],
+      fields: { heroImage: { required: true, asset: { minWidth: 1200, aspectRatio: '16:9' } } },
+    };
+    const entry = createMockEntry('card1', 'CardTypeA', { heroImage: { 'en-US': assetLink('image1') } });
+
+    it('should accept an image matching the constraints', () => {
+      const assets = { image1: createMockAsset('image1', { width: 1920, height: 1080 }) };
+      expect(codesOf(rule, entry, { assets })).toEqual([]);
+    });
+
+    it('should report image dimensions and aspect ratio', () => {
+      const assets = { image1: createMockAsset('image1', { width: 800, height: 800 }) };
+      const errors = validateFieldRules(atHero(rule), entry, { ...context, assets });
+
+      expect(errors.map((error) => error.message)).toEqual([
+        "Image in field 'heroImage' of the card at position 0 (hero) is 800x800 px, but must be at least 1200 px wide.",
+        "Image in field 'heroImage' of the card at position 0 (hero) has an aspect ratio of 1, but must be 16:9.",
+      ]);
+    });
+
+    it('should report a missing asset, a deleted asset and a file that is not an image', () => {
+      expect(codesOf(rule, createMockEntry('card1', 'CardTypeA', {}), { assets: {} })).toEqual(['FIELD_REQUIRED']);
+      expect(codesOf(rule, entry, { assets: {} })).toEqual(['ASSET_NOT_FOUND']);
+      expect(codesOf(rule, entry, { assets: { image1: createMockAsset('image1') } })).toEqual(['ASSET_NOT_IMAGE']);
+    });
+
+    it('should only check that an asset is linked when no assets are given', () => {
+      expect(codesOf(rule, entry)).toEqual([]);
+      expect(codesOf(rule, createMockEntry('card1', 'CardTypeA', { heroImage: { 'en-US': 'not a link' } }))).toEqual(['ASSET_NOT_FOUND']);
+    });
+  });
+});
+
+describe('getRuleAssetIds', () => {
+  const config: ValidationConfig = {
+    layoutType: 'hero',
+    targetContentType: 'CardsContainer',
+    validateField: ['contentCards'],
+    positions: {
+      hero: { index: 0, allowedTypes: ['CardTypeA'], fields: { heroImage: { asset: { minWidth: 100 } } } },
+      side: { index: 1, allowedTypes: ['CardTypeA'], fields: { heroImage: { required: true } } },
+    },
+    limits: { totalEntries: 2 },
+  };
+
+  it('should collect the assets linked in fields with asset rules', () => {
+    const entries = [
+      createMockEntry('card1', 'CardTypeA', { heroImage: { 'en-US': assetLink('image1') } }),
+      createMockEntry('card2', 'CardTypeA', { heroImage: { 'en-US': assetLink('image2') } }),
+    ];
+    expect(getRuleAssetIds([config, config], entries, context)).toEqual(['image1']);
+  });
+
+  it('should collect the assets of nested cards once they are resolved', () => {
+    const nestedConfig: ValidationConfig = {
+      ...config,
+      positions: { side: { index: 0, allowedTypes: ['CardTypeA'], childLayout: { field: 'items', layoutType: 'hero' } } },
+    };
+    const container = createMockEntry('container1', 'CardTypeA', { items: { 'en-US': [{ sys: { type: 'Link', linkType: 'Entry', id: 'card1' } }] } });
+    const card = createMockEntry('card1', 'CardTypeA', { heroImage: { 'en-US': assetLink('image1') } });
+    const layouts = [{ ...config, targetContentType: 'CardTypeA' }];
+
+    expect(getRuleAssetIds([nestedConfig], [container], { ...context, layouts })).toEqual([]);
+    expect(getRuleAssetIds([nestedConfig], [container], { ...context, layouts, linkedEntries: { card1: card } })).toEqual([
+      'image1',
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AssetProps } from 'contentful-management/dist/typings/entities/asset';
+import {
+  AssetRule,
+  FieldRule,
+  LinkedEntry,
+  ValidationConfig,
+  ValidationContext,
+  ValidationError,
+  ValidationErrorCode,
+  ValidationErrorParams,
+} from '../types';
+import { createValidationError } from './validationMessages';
+import { isUnresolvedLink } from './entryStatus';
+import { resolvePositions, ResolvedPosition } from './positions';
+import { getLocalizedValue } from './localizedValue';
+import { getChildContainers, getChildEntries, MAX_NESTING_DEPTH } from './nesting';
+
+const DEFAULT_ASPECT_RATIO_TOLERANCE = 0.01;
+
+// Where the card being checked sits, attached to every error about it
+interface CardLocation {
+  positionKey: string;
+  index: number;
+  entryId: string;
+}
+
+const isEmptyValue = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Turns "16:9" or 1.78 into a width / height ratio
+export const parseAspectRatio = (aspectRatio: number | string): number => {
+  if (typeof aspectRatio === 'number') {
+    return aspectRatio;
+  }
+  const [width, height] = aspectRatio.split(':').map(Number);
+  return width / height;
+};
+
+// The id of the asset a field value links to, if it is an asset link
+const getAssetLinkId = (value: any): string | undefined =>
+  value?.sys?.linkType === 'Asset' ? value.sys.id : undefined;
+
+const dimensionBounds: Array<[keyof AssetRule, 'width' | 'height', 'min' | 'max']> = [
+  ['minWidth', 'width', 'min'],
+  ['maxWidth', 'width', 'max'],
+  ['minHeight', 'height', 'min'],
+  ['maxHeight', 'height', 'max'],
+];
+
+const validateAsset = (
+  assetRule: AssetRule,
+  value: any,
+  context: ValidationContext,
+  fieldError: (code: ValidationErrorCode, params?: ValidationErrorParams) => ValidationError
+): ValidationError[] => {
+  const assetId = getAssetLinkId(value);
+  if (!assetId) {
+    return [fieldError('ASSET_NOT_FOUND', { assetId: undefined })];
+  }
+  // Without resolved assets only the presence of the link can be checked
+  if (!context.assets) {
+    return [];
+  }
+
+  const asset: AssetProps | undefined = context.assets[assetId];
+  if (!asset) {
+    return [fieldError('ASSET_NOT_FOUND', { assetId })];
+  }
+
+  const hasDimensionRules = dimensionBounds.some(([bound]) => assetRule[bound] !== undefined);
+  if (!hasDimensionRules && assetRule.aspectRatio === undefined) {
+    return [];
+  }
+
+  const image = getLocalizedValue(asset.fields.file, context)?.details?.image;
+  if (!image) {
+    return [fieldError('ASSET_NOT_IMAGE', { assetId })];
+  }
+
+  const errors: ValidationError[] = [];
+  const { width, height } = image;
+  dimensionBounds.forEach(([bound, dimension, kind]) => {
+    const limit = assetRule[bound] as number | undefined;
+    const actual = dimension === 'width' ? width : height;
+    if (limit !== undefined && (kind === 'min' ? actual < limit : actual > limit)) {
+      errors.push(fieldError('ASSET_DIMENSIONS', { assetId, width, height, bound, limit }));
+    }
+  });
+
+  if (assetRule.aspectRatio !== undefined) {
+    const expected = parseAspectRatio(assetRule.aspectRatio);
+    const tolerance = assetRule.aspectRatioTolerance ?? DEFAULT_ASPECT_RATIO_TOLERANCE;
+    const actual = width / height;
+    if (Math.abs(actual / expected - 1) > tolerance) {
+      errors.push(
+        fieldError('ASSET_ASPECT_RATIO', {
+          assetId,
+          aspectRatio: String(assetRule.aspectRatio),
+          actual: Math.round(actual * 100) / 100,
+        })
+      );
+    }
+  }
+  return errors;
+};
+
+// Checks a single field of a card against its rule
+const validateField = (
+  fieldId: string,
+  rule: FieldRule,
+  value: any,
+  location: CardLocation,
+  context: ValidationContext
+): ValidationError[] => {
+  const fieldError = (code: ValidationErrorCode, params: ValidationErrorParams = {}) =>
+    createValidationError(code, { ...location, params: { fieldId, ...params } });
+
+  if (isEmptyValue(value)) {
+    return rule.required ? [fieldError('FIELD_REQUIRED')] : [];
+  }
+  if (rule.forbidden) {
+    return [fieldError('FIELD_FORBIDDEN')];
+  }
+
+  const errors: ValidationError[] = [];
+  if (typeof value === 'string') {
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+      errors.push(fieldError('FIELD_TOO_LONG', { length: value.length, maxLength: rule.maxLength }));
+    }
+    if (rule.regex !== undefined && !new RegExp(rule.regex).test(value)) {
+      errors.push(fieldError('FIELD_PATTERN_MISMATCH', { regex: rule.regex }));
+    }
+  }
+
+  if (rule.enum) {
+    const allowedValues = rule.enum;
+    const disallowed = (Array.isArray(value) ? value : [value]).filter((item) => !allowedValues.includes(item));
+    disallowed.forEach((item) =>
+      errors.push(fieldError('FIELD_VALUE_NOT_ALLOWED', { value: String(item), allowedValues: allowedValues.map(String) }))
+    );
+  }
+
+  if (rule.asset) {
+    errors.push(...validateAsset(rule.asset, value, context, fieldError));
+  }
+  return errors;
+};
+
+// Checks the field rules of a position against the card placed there
+export const validateFieldRules = (
+  position: ResolvedPosition,
+  entry: EntryProps,
+  context: ValidationContext = {}
+): ValidationError[] => {
+  const location = { positionKey: position.positionKey, index: position.index, entryId: entry.sys.id };
+  return Object.entries(position.rule.fields ?? {}).flatMap(([fieldId, rule]) =>
+    validateField(fieldId, rule, getLocalizedValue(entry.fields[fieldId], context), location, context)
+  );
+};
+
+// Collects the ids of the assets that the asset rules of the layouts need, so they can be fetched up front.
+// Nested containers are included once their cards are resolved, see ValidationContext.linkedEntries.
+export const getRuleAssetIds = (
+  configs: ValidationConfig[],
+  linkedEntries: LinkedEntry[],
+  context: ValidationContext = {},
+  depth = 0
+): string[] => {
+  const assetIds = new Set<string>();
+  configs.forEach((config) => {
+    resolvePositions(config, linkedEntries.length).forEach(({ index, rule: positionRule }) => {
+      const entry = index >= 0 ? linkedEntries[index] : undefined;
+      if (!entry || isUnresolvedLink(entry)) {
+        return;
+      }
+      Object.entries(positionRule.fields ?? {}).forEach(([fieldId, rule]) => {
+        const assetId = rule.asset && getAssetLinkId(getLocalizedValue(entry.fields[fieldId], context));
+        if (assetId) {
+          assetIds.add(assetId);
+        }
+      });
+    });
+
+    if (context.linkedEntries && depth < MAX_NESTING_DEPTH) {
+      getChildContainers(config, linkedEntries, context).forEach(({ layout, links }) =>
+        getRuleAssetIds([layout], getChildEntries(links, context), context, depth + 1).forEach((id) => assetIds.add(id))
+      );
+    }
+  });
+  return Array.from(assetIds);
+};
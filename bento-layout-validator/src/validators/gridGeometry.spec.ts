@@ -0,0 +1,47 @@
+import { getCoveredCells, getGridPlacements, getGridSize } from './gridGeometry';
+import { ValidationConfig } from '../types';
+
+describe('grid geometry', () => {
+  const config: ValidationConfig = {
+    layoutType: 'bento-1-2',
+    targetContentType: 'CardsContainer',
+    validateField: ['contentCards'],
+    grid: { columns: 2, breakpoints: { mobile: { columns: 1 } } },
+    positions: {
+      left: { index: 0, allowedTypes: ['CardTypeA'], grid: { row: 1, column: 1, rowSpan: 2 } },
+      right: { index: 1, allowedTypes: ['CardTypeB'], grid: { row: 1, column: 2, breakpoints: { mobile: { row: 3, column: 1 } } } },
+      others: { index: 'rest', allowedTypes: ['CardTypeB'] },
+    },
+    limits: { totalEntries: { min: 2 } },
+  };
+
+  it('should place the positions, using the overrides of a breakpoint', () => {
+    expect(getGridPlacements(config)).toEqual([
+      { positionKey: 'left', placement: { row: 1, column: 1, rowSpan: 2, colSpan: 1 } },
+      { positionKey: 'right', placement: { row: 1, column: 2, rowSpan: 1, colSpan: 1 } },
+    ]);
+    expect(getGridPlacements(config, 'mobile')[1].placement).toEqual({ row: 3, column: 1, rowSpan: 1, colSpan: 1 });
+  });
+
+  it('should derive the rows from the placements', () => {
+    expect(getGridSize(config)).toEqual({ columns: 2, rows: 2 });
+    expect(getGridSize(config, 'mobile')).toEqual({ columns: 1, rows: 3 });
+    expect(getGridSize({ ...config, grid: undefined })).toBeUndefined();
+  });
+
+  it('should list the cells a placement covers', () => {
+    expect(getCoveredCells({ row: 2, column: 1, rowSpan: 1, colSpan: 2 })).toEqual([
+      [2, 1],
+      [2, 2],
+    ]);
+  });
+
+  it('should only list the cells inside the grid when given its size', () => {
+    expect(getCoveredCells({ row: 2, column: 2, rowSpan: 1e9, colSpan: 1e9 }, { columns: 3, rows: 3 })).toEqual([
+      [2, 2],
+      [2, 3],
+      [3, 2],
+      [3, 3],
+    ]);
+  });
+});
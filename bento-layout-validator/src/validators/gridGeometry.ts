@@ -0,0 +1,57 @@
+import { GridPlacement, GridSize, ValidationConfig } from '../types';
+
+// The largest grid line, span or grid size a layout may use. Keeps the cells a grid has to check bounded.
+export const MAX_GRID_LINES = 100;
+
+// A position placed on the grid, its spans filled in
+export interface PlacedPosition {
+  positionKey: string;
+  placement: Required<GridPlacement>;
+}
+
+const withSpans = ({ row, column, rowSpan = 1, colSpan = 1 }: GridPlacement): Required<GridPlacement> => ({
+  row,
+  column,
+  rowSpan,
+  colSpan,
+});
+
+// The placements of the positions of a layout, for a breakpoint of its grid or the base grid.
+// A position without an override for the breakpoint keeps its base placement.
+export const getGridPlacements = (config: ValidationConfig, breakpoint?: string): PlacedPosition[] =>
+  Object.entries(config.positions).flatMap(([positionKey, { grid }]) => {
+    if (!grid) {
+      return [];
+    }
+    const placement = (breakpoint !== undefined && grid.breakpoints?.[breakpoint]) || grid;
+    return [{ positionKey, placement: withSpans(placement) }];
+  });
+
+// The size of a layout's grid for a breakpoint, rows derived from the placements when not given.
+// Undefined for a layout without a grid.
+export const getGridSize = (config: ValidationConfig, breakpoint?: string): Required<GridSize> | undefined => {
+  if (!config.grid) {
+    return undefined;
+  }
+  const size = (breakpoint !== undefined && config.grid.breakpoints?.[breakpoint]) || config.grid;
+  const rows =
+    size.rows ??
+    Math.max(0, ...getGridPlacements(config, breakpoint).map(({ placement }) => placement.row + placement.rowSpan - 1));
+  return { columns: size.columns, rows };
+};
+
+// The [row, column] cells a placement covers, only those inside the grid when its size is given
+export const getCoveredCells = (
+  { row, column, rowSpan, colSpan }: Required<GridPlacement>,
+  size?: Required<GridSize>
+): Array<[number, number]> => {
+  const lastRow = Math.min(row + rowSpan - 1, size?.rows ?? Infinity);
+  const lastColumn = Math.min(column + colSpan - 1, size?.columns ?? Infinity);
+  const cells: Array<[number, number]> = [];
+  for (let r = row; r <= lastRow; r++) {
+    for (let c = column; c <= lastColumn; c++) {
+      cells.push([r, c]);
+    }
+  }
+  return cells;
+};
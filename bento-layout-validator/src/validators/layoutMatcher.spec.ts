@@ -0,0 +1,70 @@
+import { getFittingLayouts, rankLayouts } from './layoutMatcher';
+import { ValidationConfig } from '../types';
+import { createMockEntry } from '../../test/mocks';
+
+describe('rankLayouts', () => {
+  const heroFirst: ValidationConfig = {
+    layoutType: 'hero-first',
+    targetContentType: 'TestContainer',
+    validateField: ['testField'],
+    positions: {
+      hero: { index: 0, allowedTypes: ['typeA'] },
+      side: { index: 1, allowedTypes: ['typeB'] },
+    },
+    limits: { totalEntries: 2 },
+  };
+  const heroLast: ValidationConfig = {
+    ...heroFirst,
+    layoutType: 'hero-last',
+    positions: {
+      side: { index: 0, allowedTypes: ['typeB'] },
+      hero: { index: 1, allowedTypes: ['typeA'] },
+    },
+  };
+  const allB: ValidationConfig = {
+    ...heroFirst,
+    layoutType: 'all-b',
+    positions: {
+      first: { index: 0, allowedTypes: ['typeB'] },
+      second: { index: 1, allowedTypes: ['typeB'] },
+    },
+  };
+
+  it('should rank layouts by error count', () => {
+    const entries = [createMockEntry('entry1', 'typeB'), createMockEntry('entry2', 'typeA')];
+    const matches = rankLayouts([heroFirst, allB, heroLast], entries);
+    expect(matches.map((match) => match.config.layoutType)).toEqual(['hero-last', 'all-b', 'hero-first']);
+    expect(matches.map((match) => match.result.errors.length)).toEqual([0, 1, 2]);
+  });
+
+  it('should keep the authored order for layouts with the same error count', () => {
+    const entries = [createMockEntry('entry1', 'typeC'), createMockEntry('entry2', 'typeC')];
+    const matches = rankLayouts([heroLast, heroFirst], entries);
+    expect(matches.map((match) => match.config.layoutType)).toEqual(['hero-last', 'hero-first']);
+  });
+
+  it('should rank by errors and only break ties by warnings', () => {
+    // The mock entries are unpublished drafts, which this layout only warns about
+    const heroLastWarning: ValidationConfig = { ...heroLast, layoutType: 'hero-last-warning', entryStatus: { draft: 'warning' } };
+    const entries = [createMockEntry('entry1', 'typeB'), createMockEntry('entry2', 'typeA')];
+
+    expect(rankLayouts([allB, heroLastWarning], entries).map((match) => match.config.layoutType)).toEqual([
+      'hero-last-warning',
+      'all-b',
+    ]);
+    expect(rankLayouts([heroLastWarning, heroLast], entries).map((match) => match.config.layoutType)).toEqual([
+      'hero-last',
+      'hero-last-warning',
+    ]);
+  });
+
+  it('should return the layouts the entries satisfy', () => {
+    const entries = [createMockEntry('entry1', 'typeA'), createMockEntry('entry2', 'typeB')];
+    expect(getFittingLayouts(rankLayouts([heroLast, heroFirst], entries))).toEqual([heroFirst]);
+  });
+
+  it('should return no fitting layouts when nothing matches', () => {
+    const entries = [createMockEntry('entry1', 'typeC')];
+    expect(getFittingLayouts(rankLayouts([heroFirst, heroLast], entries))).toEqual([]);
+  });
+});
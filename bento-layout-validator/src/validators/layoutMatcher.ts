@@ -0,0 +1,24 @@
+import { LayoutMatch, LinkedEntry, ValidationConfig, ValidationContext, ValidationError } from '../types';
+import { validateBentoLayout } from './bentoValidator';
+
+const countBySeverity = (errors: ValidationError[], severity: ValidationError['severity']): number =>
+  errors.filter((error) => error.severity === severity).length;
+
+// Validates the linked entries against every candidate layout and ranks the layouts by error count, warnings only
+// breaking ties. Layouts with the same counts keep their authored order, so the first one is the preferred suggestion.
+export const rankLayouts = (
+  configs: ValidationConfig[],
+  linkedEntries: LinkedEntry[] | null | undefined,
+  context: ValidationContext = {}
+): LayoutMatch[] =>
+  configs
+    .map((config) => ({ config, result: validateBentoLayout(config, linkedEntries, context) }))
+    .sort(
+      (a, b) =>
+        countBySeverity(a.result.errors, 'error') - countBySeverity(b.result.errors, 'error') ||
+        countBySeverity(a.result.errors, 'warning') - countBySeverity(b.result.errors, 'warning')
+    );
+
+// Returns the layouts that the linked entries currently satisfy
+export const getFittingLayouts = (matches: LayoutMatch[]): ValidationConfig[] =>
+  matches.filter((match) => match.result.isValid).map((match) => match.config);
@@ -0,0 +1,9 @@
+import { CountLimit, CountRange } from '../types';
+
+// totalEntries as a plain number is an exact count, i.e. both the minimum and the maximum
+export const getTotalEntriesRange = (limit: CountLimit): CountRange =>
+  typeof limit === 'number' ? { min: limit, max: limit } : limit;
+
+// A typeLimits entry as a plain number is a maximum, kept for backward compatibility
+export const getTypeLimitRange = (limit: CountLimit): CountRange =>
+  typeof limit === 'number' ? { max: limit } : limit;
@@ -0,0 +1,18 @@
+import { ValidationContext } from '../types';
+
+type LocalizedValues = { [locale: string]: any } | undefined;
+
+// Picks the value of a localized field: the requested locale, then the default locale.
+// Without a locale, the first available value is used.
+export const getLocalizedValue = (values: LocalizedValues, { locale, defaultLocale }: ValidationContext): any => {
+  if (!values) {
+    return undefined;
+  }
+  if (!locale && !defaultLocale) {
+    return Object.values(values)[0];
+  }
+  if (locale && values[locale] !== undefined) {
+    return values[locale];
+  }
+  return defaultLocale ? values[defaultLocale] : undefined;
+};
@@ -0,0 +1,55 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { ChildLayoutRule, EntryLink, LinkedEntry, ValidationConfig, ValidationContext } from '../types';
+import { getLocalizedValue } from './localizedValue';
+import { isUnresolvedLink } from './entryStatus';
+import { resolvePositions, ResolvedPosition } from './positions';
+
+// Containers nested deeper than this are reported instead of validated
+export const MAX_NESTING_DEPTH = 5;
+
+// A card of a layout that is a container of its own
+export interface ChildContainer {
+  position: ResolvedPosition;
+  entry: EntryProps;
+  layout: ValidationConfig;
+  links: EntryLink[];
+}
+
+const getContentTypeId = (entry: EntryProps): string | undefined => entry.sys.contentType?.sys?.id;
+
+// Looks up the child layout of a card among the layouts registered for the card's content type.
+// Cards of other types, e.g. plain cards allowed at the same position, are not containers.
+export const findChildLayout = (
+  childLayout: ChildLayoutRule,
+  entry: EntryProps,
+  layouts: ValidationConfig[] = []
+): ValidationConfig | undefined =>
+  layouts.find(
+    (layout) => layout.layoutType === childLayout.layoutType && layout.targetContentType === getContentTypeId(entry)
+  );
+
+// The links held by the reference field of a nested container, for the locale being validated
+export const getChildLinks = (entry: EntryProps, field: string, context: ValidationContext): EntryLink[] => {
+  const value = getLocalizedValue(entry.fields[field], context);
+  return Array.isArray(value) ? value : [];
+};
+
+// The cards of a nested container, looked up among the resolved entries. Cards that were not resolved stay links.
+export const getChildEntries = (links: EntryLink[], context: ValidationContext): LinkedEntry[] =>
+  links.map((link) => context.linkedEntries?.[link.sys.id] ?? { sys: { type: 'Link', linkType: 'Entry', id: link.sys.id } });
+
+// The cards of a layout that are containers of their own, with their child layout and the links of their reference field
+export const getChildContainers = (
+  config: ValidationConfig,
+  linkedEntries: LinkedEntry[],
+  context: ValidationContext
+): ChildContainer[] =>
+  resolvePositions(config, linkedEntries.length).flatMap((position) => {
+    const entry = position.index >= 0 ? linkedEntries[position.index] : undefined;
+    const { childLayout } = position.rule;
+    if (!childLayout || !entry || isUnresolvedLink(entry)) {
+      return [];
+    }
+    const layout = findChildLayout(childLayout, entry, context.layouts);
+    return layout ? [{ position, entry, layout, links: getChildLinks(entry, childLayout.field, context) }] : [];
+  });
@@ -0,0 +1,87 @@
+import { getLayoutTypes, getNextAllowedTypes, parsePositionIndex, resolvePositions } from './positions';
+import { ValidationConfig } from '../types';
+import { createConfig } from '../../test/mocks';
+
+// Compact view of the resolved positions: "index:positionKey:allowedTypes"
+const describePositions = (config: ValidationConfig, count: number) =>
+  resolvePositions(config, count).map(({ index, positionKey, allowedTypes }) => `${index}:${positionKey}:${allowedTypes.join('|')}`);
+
+describe('parsePositionIndex', () => {
+  it('should parse fixed indexes, last, rest and ranges', () => {
+    expect(parsePositionIndex(2)).toEqual({ kind: 'fixed', index: 2 });
+    expect(parsePositionIndex(-2)).toEqual({ kind: 'fixed', index: -2 });
+    expect(parsePositionIndex('last')).toEqual({ kind: 'fixed', index: -1 });
+    expect(parsePositionIndex('rest')).toEqual({ kind: 'rest' });
+    expect(parsePositionIndex('1..5')).toEqual({ kind: 'range', from: 1, to: 5 });
+    expect(parsePositionIndex('3..')).toEqual({ kind: 'range', from: 3, to: undefined });
+  });
+
+  it('should return null for anything else', () => {
+    expect(parsePositionIndex('first')).toBeNull();
+    expect(parsePositionIndex(1.5)).toBeNull();
+  });
+});
+
+describe('resolvePositions', () => {
+  it('should resolve fixed indexes even when no card is there', () => {
+    const config = createConfig({ hero: { index: 0, allowedTypes: ['A'] }, side: { index: 2, allowedTypes: ['B'] } });
+    expect(describePositions(config, 1)).toEqual(['0:hero:A', '2:side:B']);
+  });
+
+  it('should count negative indexes and last from the end', () => {
+    const config = createConfig({ footer: { index: 'last', allowedTypes: ['F'] }, beforeFooter: { index: -2, allowedTypes: ['B'] } });
+    expect(describePositions(config, 4)).toEqual(['3:footer:F', '2:beforeFooter:B']);
+    // Not enough cards: the configured index is kept so the position is reported as missing
+    expect(describePositions(config, 1)).toEqual(['0:footer:F', '-2:beforeFooter:B']);
+  });
+
+  it('should apply ranges to the cards present, skipping cards of fixed positions', () => {
+    const config = createConfig({
+      cards: { index: '1..3', allowedTypes: ['B'] },
+      hero: { index: 0, allowedTypes: ['A'] },
+      footer: { index: 'last', allowedTypes: ['F'] },
+    });
+    expect(describePositions(config, 3)).toEqual(['0:hero:A', '2:footer:F', '1:cards:B']);
+    expect(describePositions(config, 6)).toEqual(['0:hero:A', '5:footer:F', '1:cards:B', '2:cards:B', '3:cards:B']);
+  });
+
+  it('should give rest every card no other position claims', () => {
+    const config = createConfig({ others: { index: 'rest', allowedTypes: ['B'] }, hero: { index: 0, allowedTypes: ['A'] } });
+    expect(describePositions(config, 3)).toEqual(['0:hero:A', '1:others:B', '2:others:B']);
+    expect(describePositions(config, 0)).toEqual(['0:hero:A']);
+  });
+
+  it('should repeat a pattern over the cards a position matches', () => {
+    const config = createConfig({ hero: { index: 0, allowedTypes: ['H'] }, grid: { index: '1..', pattern: [['A'], ['B', 'C']] } });
+    expect(describePositions(config, 5)).toEqual(['0:hero:H', '1:grid:A', '2:grid:B|C', '3:grid:A', '4:grid:B|C']);
+  });
+});
+
+describe('getNextAllowedTypes', () => {
+  it('should offer the types of the first fixed position without a card', () => {
+    const config = createConfig({ left: { index: 0, allowedTypes: ['A'] }, right: { index: 1, allowedTypes: ['B', 'C'] } });
+    expect(getNextAllowedTypes(config, 0)).toEqual(['A']);
+    expect(getNextAllowedTypes(config, 1)).toEqual(['B', 'C']);
+    expect(getNextAllowedTypes(config, 2)).toEqual([]);
+  });
+
+  it('should offer the types of the positions the appended card would fall under', () => {
+    const config = createConfig({
+      hero: { index: 0, allowedTypes: ['H'] },
+      grid: { index: '1..', pattern: [['A'], ['B']] },
+      footer: { index: 'last', allowedTypes: ['F'] },
+    });
+    expect(getNextAllowedTypes(config, 0)).toEqual(['H']);
+    expect(getNextAllowedTypes(config, 2)).toEqual(['F']);
+  });
+});
+
+describe('getLayoutTypes', () => {
+  it('should list every type a position or pattern allows once', () => {
+    const config = createConfig({
+      hero: { index: 0, allowedTypes: ['A', 'B'] },
+      grid: { index: '1..', pattern: [['B'], ['C']] },
+    });
+    expect(getLayoutTypes(config)).toEqual(['A', 'B', 'C']);
+  });
+});
@@ -0,0 +1,112 @@
+import { PositionIndex, PositionRule, ValidationConfig } from '../types';
+
+// A position of a layout applied to one card index
+export interface ResolvedPosition {
+  positionKey: string;
+  index: number; // Outside the cards for a fixed position that is not filled
+  allowedTypes: string[];
+  rule: PositionRule;
+}
+
+// How a position selects cards. A fixed index below 0 counts from the end.
+export type IndexSelector =
+  | { kind: 'fixed'; index: number }
+  | { kind: 'range'; from: number; to?: number }
+  | { kind: 'rest' };
+
+const RANGE_PATTERN = /^(\d+)\.\.(\d+)?$/;
+
+// Parses the index of a position: 2, -1, "last", "1..5", "1.." or "rest".
+// Returns null for anything else, which the config linter reports.
+export const parsePositionIndex = (index: PositionIndex): IndexSelector | null => {
+  if (typeof index === 'number') {
+    return Number.isInteger(index) ? { kind: 'fixed', index } : null;
+  }
+  if (index === 'last') {
+    return { kind: 'fixed', index: -1 };
+  }
+  if (index === 'rest') {
+    return { kind: 'rest' };
+  }
+  const match = RANGE_PATTERN.exec(index);
+  if (!match) {
+    return null;
+  }
+  return { kind: 'range', from: Number(match[1]), to: match[2] === undefined ? undefined : Number(match[2]) };
+};
+
+// The types allowed for the n-th card a position matches. A pattern repeats, e.g. A, B, A, B for [[A], [B]].
+const getAllowedTypes = (rule: PositionRule, n: number): string[] =>
+  rule.pattern && rule.pattern.length > 0 ? rule.pattern[n % rule.pattern.length] : rule.allowedTypes ?? [];
+
+// Applies the positions of a layout to a field holding `count` cards.
+// Fixed indexes always yield a position, even when no card is there, so the card can be reported as missing.
+// Ranges and "rest" only apply to the cards present. A card claimed by a fixed index is skipped by ranges,
+// and "rest" takes every card no other position claims.
+export const resolvePositions = (config: ValidationConfig, count: number): ResolvedPosition[] => {
+  const positions: ResolvedPosition[] = [];
+  const claimed = new Set<number>();
+  const selectors = Object.entries(config.positions).map(([positionKey, rule]) => ({
+    positionKey,
+    rule,
+    selector: parsePositionIndex(rule.index),
+  }));
+
+  const add = (positionKey: string, rule: PositionRule, indexes: number[]) => {
+    indexes.forEach((index, n) => {
+      claimed.add(index);
+      positions.push({ positionKey, index, allowedTypes: getAllowedTypes(rule, n), rule });
+    });
+  };
+
+  selectors.forEach(({ positionKey, rule, selector }) => {
+    if (selector?.kind === 'fixed') {
+      // A negative index that reaches before the first card keeps its configured value
+      const fromEnd = count + selector.index;
+      add(positionKey, rule, [selector.index < 0 && fromEnd >= 0 ? fromEnd : selector.index]);
+    }
+  });
+
+  selectors.forEach(({ positionKey, rule, selector }) => {
+    if (selector?.kind === 'range') {
+      const last = Math.min(selector.to ?? count - 1, count - 1);
+      const indexes: number[] = [];
+      for (let index = selector.from; index <= last; index++) {
+        if (!claimed.has(index)) {
+          indexes.push(index);
+        }
+      }
+      add(positionKey, rule, indexes);
+    }
+  });
+
+  selectors.forEach(({ positionKey, rule, selector }) => {
+    if (selector?.kind === 'rest') {
+      const indexes = Array.from({ length: count }, (_, index) => index).filter((index) => !claimed.has(index));
+      add(positionKey, rule, indexes);
+    }
+  });
+
+  return positions;
+};
+
+// The content types a card appended to `count` cards may have: those of the first fixed position still waiting
+// for a card, else those of the positions that would apply to it. Empty when no position would.
+export const getNextAllowedTypes = (config: ValidationConfig, count: number): string[] => {
+  const [nextEmpty] = resolvePositions(config, count)
+    .filter(({ index }) => index >= count)
+    .sort((a, b) => a.index - b.index);
+  if (nextEmpty) {
+    return nextEmpty.allowedTypes;
+  }
+  const types = resolvePositions(config, count + 1)
+    .filter(({ index }) => index === count)
+    .flatMap(({ allowedTypes }) => allowedTypes);
+  return Array.from(new Set(types));
+};
+
+// Every content type some position of a layout allows, patterns included, in the order they are first named
+export const getLayoutTypes = (config: ValidationConfig): string[] =>
+  Array.from(
+    new Set(Object.values(config.positions).flatMap((rule) => [...(rule.allowedTypes ?? []), ...(rule.pattern ?? []).flat()]))
+  );
@@ -0,0 +1,62 @@
+import { ResultSubject, toJUnitXml, toSarif } from './resultFormatters';
+import { createValidationError } from './validationMessages';
+import { toValidationResult } from './bentoValidator';
+
+const failing: ResultSubject = {
+  entryId: 'entry1',
+  title: 'Home & <away>',
+  contentType: 'CardsContainer',
+  fieldId: 'cards',
+  layoutType: 'bento-hero',
+  result: toValidationResult([
+    createValidationError('MISSING_POSITION', { index: 1, positionKey: 'side' }),
+    createValidationError('ENTRY_DRAFT', { entryId: 'card1', index: 0, positionKey: 'hero', severity: 'warning', locale: 'de-DE' }),
+  ]),
+};
+
+const passing: ResultSubject = { entryId: 'entry2', layoutType: 'bento-hero', result: toValidationResult([]) };
+
+describe('toJUnitXml', () => {
+  it('should write a testcase per subject, failing the invalid ones', () => {
+    const xml = toJUnitXml([failing, passing]);
+
+    expect(xml).toContain('<testsuites name="bento-layout-validator" tests="2" failures="1">');
+    expect(xml).toContain('<testcase name="Home &amp; &lt;away&gt; (entry1) cards" classname="CardsContainer.bento-hero">');
+    expect(xml).toContain('<failure message="1 error">MISSING_POSITION: Missing entry at position 1 (side).</failure>');
+    expect(xml).toContain('<system-out>ENTRY_DRAFT: Linked entry &apos;card1&apos;');
+    expect(xml).toContain('<testcase name="entry2" classname="bento-hero"/>');
+  });
+
+  it('should keep a valid result with warnings passing', () => {
+    const xml = toJUnitXml([{ ...failing, result: toValidationResult(failing.result.errors.slice(1)) }]);
+
+    expect(xml).toContain('failures="0"');
+    expect(xml).not.toContain('<failure');
+  });
+});
+
+describe('toSarif', () => {
+  it('should write a result per error with the error code as its rule', () => {
+    const log = JSON.parse(toSarif([failing, passing], { artifactUri: 'export.json' }));
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(['ENTRY_DRAFT', 'MISSING_POSITION']);
+    expect(run.results.map((result: any) => [result.ruleId, result.ruleIndex, result.level])).toEqual([
+      ['MISSING_POSITION', 1, 'error'],
+      ['ENTRY_DRAFT', 0, 'warning'],
+    ]);
+    expect(run.results[1].locations[0]).toEqual({
+      physicalLocation: { artifactLocation: { uri: 'export.json' } },
+      logicalLocations: [{ name: 'cards', fullyQualifiedName: 'CardsContainer/entry1/cards', kind: 'object' }],
+    });
+    expect(run.results[1].properties).toEqual(expect.objectContaining({ entryId: 'entry1', locale: 'de-DE', linkedEntryId: 'card1' }));
+  });
+
+  it('should write an empty run without problems', () => {
+    const [run] = JSON.parse(toSarif([passing])).runs;
+
+    expect(run.results).toEqual([]);
+    expect(run.tool.driver.rules).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { ValidationError, ValidationResult, ValidationSeverity } from '../types';
+
+const TOOL_NAME = 'bento-layout-validator';
+
+// A validation result together with what was validated: an entry's layout field against a layout
+export interface ResultSubject {
+  entryId: string;
+  title?: string;
+  contentType?: string;
+  fieldId?: string;
+  layoutType?: string;
+  result: ValidationResult;
+}
+
+export interface SarifOptions {
+  artifactUri?: string; // File the entries were read from, e.g. an export. Code scanning dashboards expect one.
+}
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&"']/g, (char) => `&${{ '<': 'lt', '>': 'gt', '&': 'amp', '"': 'quot', "'": 'apos' }[char]};`);
+
+const formatErrors = (errors: ValidationError[]): string =>
+  errors.map((error) => `${error.code}: ${error.message}`).join('\n');
+
+// E.g. "Home (entry1) cards"
+const getSubjectName = ({ entryId, title, fieldId }: ResultSubject): string =>
+  [title ? `${title} (${entryId})` : entryId, fieldId].filter(Boolean).join(' ');
+
+// JUnit XML with one testcase per entry and layout: an invalid result fails it, warnings and notes are kept as
+// its output
+export const toJUnitXml = (subjects: ResultSubject[]): string => {
+  const failures = subjects.filter((subject) => !subject.result.isValid).length;
+  const testcases = subjects.map((subject) => {
+    const { isValid, errors } = subject.result;
+    const blocking = errors.filter((error) => error.severity === 'error');
+    const others = errors.filter((error) => error.severity !== 'error');
+    const body = [
+      !isValid &&
+        `<failure message="${escapeXml(`${blocking.length} ${blocking.length === 1 ? 'error' : 'errors'}`)}">${escapeXml(
+          formatErrors(blocking)
+        )}</failure>`,
+      others.length > 0 && `<system-out>${escapeXml(formatErrors(others))}</system-out>`,
+    ].filter(Boolean);
+    const className = [subject.contentType, subject.layoutType].filter(Boolean).join('.');
+    const open = `    <testcase name="${escapeXml(getSubjectName(subject))}" classname="${escapeXml(className)}"`;
+    return body.length > 0 ? `${open}>\n      ${body.join('\n      ')}\n    </testcase>` : `${open}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${subjects.length}" failures="${failures}">`,
+    `  <testsuite name="layouts" tests="${subjects.length}" failures="${failures}">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
+
+const SARIF_LEVELS: { [severity in ValidationSeverity]: string } = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+// A SARIF 2.1.0 log with one result per error, its rule being the error code. The entry and field are logical
+// locations, the file they were read from the physical one.
+export const toSarif = (subjects: ResultSubject[], { artifactUri }: SarifOptions = {}): string => {
+  const ruleIds = Array.from(
+    new Set(subjects.flatMap((subject) => subject.result.errors.map((error) => error.code)))
+  ).sort();
+
+  const results = subjects.flatMap((subject) =>
+    subject.result.errors.map((error) => ({
+      ruleId: error.code,
+      ruleIndex: ruleIds.indexOf(error.code),
+      level: SARIF_LEVELS[error.severity],
+      message: { text: error.message },
+      locations: [
+        {
+          ...(artifactUri && { physicalLocation: { artifactLocation: { uri: artifactUri } } }),
+          logicalLocations: [
+            {
+              name: subject.fieldId ?? subject.entryId,
+              fullyQualifiedName: [subject.contentType, subject.entryId, subject.fieldId].filter(Boolean).join('/'),
+              kind: 'object',
+            },
+          ],
+        },
+      ],
+      properties: {
+        entryId: subject.entryId,
+        title: subject.title,
+        layoutType: subject.layoutType,
+        locale: error.locale,
+        path: error.path,
+        positionKey: error.positionKey,
+        index: error.index,
+        linkedEntryId: error.entryId,
+      },
+    }))
+  );
+
+  return JSON.stringify(
+    {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              rules: ruleIds.map((id) => ({ id, name: id, shortDescription: { text: id } })),
+            },
+          },
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+};
@@ -0,0 +1,44 @@
+import { createValidationError, renderValidationMessage, validationMessages } from './validationMessages';
+import { toValidationResult } from './bentoValidator';
+
+describe('createValidationError', () => {
+  it('should render the message from the code and default to error severity', () => {
+    expect(createValidationError('MISSING_POSITION', { positionKey: 'hero', index: 0 })).toEqual({
+      code: 'MISSING_POSITION',
+      severity: 'error',
+      positionKey: 'hero',
+      index: 0,
+      message: 'Missing entry at position 0 (hero).',
+    });
+  });
+
+  it('should keep an explicit severity', () => {
+    expect(createValidationError('FETCH_FAILED', { severity: 'warning' }).severity).toBe('warning');
+  });
+
+  it('should join list params in messages', () => {
+    const error = createValidationError('UNKNOWN_LAYOUT', {
+      params: { layoutType: 'bento-3-3', layoutField: 'layout', layoutTypes: ['bento-1-2', 'bento-2-1'] },
+    });
+    expect(error.message).toBe("Unknown layout 'bento-3-3' in field 'layout'. Expected one of: bento-1-2, bento-2-1.");
+  });
+});
+
+describe('renderValidationMessage', () => {
+  it('should render with another message catalogue', () => {
+    const germanMessages = {
+      ...validationMessages,
+      MISSING_POSITION: ({ index }: { index?: number }) => `Eintrag an Position ${index} fehlt.`,
+    };
+    const error = createValidationError('MISSING_POSITION', { positionKey: 'hero', index: 2 });
+    expect(renderValidationMessage(error, germanMessages)).toBe('Eintrag an Position 2 fehlt.');
+  });
+});
+
+describe('toValidationResult', () => {
+  it('should only treat errors with error severity as invalid', () => {
+    const warning = createValidationError('FETCH_FAILED', { severity: 'warning' });
+    expect(toValidationResult([warning]).isValid).toBe(true);
+    expect(toValidationResult([warning, createValidationError('FETCH_FAILED')]).isValid).toBe(false);
+  });
+});
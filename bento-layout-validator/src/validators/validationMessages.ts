@@ -0,0 +1,95 @@
+import { ValidationError, ValidationErrorCode, ValidationSeverity } from '../types';
+
+type ValidationErrorDetails = Omit<ValidationError, 'code' | 'severity' | 'message'> & {
+  severity?: ValidationSeverity;
+};
+
+type MessageTemplate = (error: Omit<ValidationError, 'message'>) => string;
+
+const list = (value: unknown): string => (Array.isArray(value) ? value.join(', ') : String(value));
+
+// Describes where a card sits, naming its position when the layout defines one for the index
+const at = (index: number | undefined, positionKey: string | undefined): string =>
+  positionKey ? `position ${index} (${positionKey})` : `position ${index}`;
+
+const dimensionBounds: { [bound: string]: string } = {
+  minWidth: 'at least',
+  maxWidth: 'at most',
+  minHeight: 'at least',
+  maxHeight: 'at most',
+};
+
+// English message catalogue. Swap it out via renderValidationMessage to translate the app.
+export const validationMessages: { [code in ValidationErrorCode]: MessageTemplate } = {
+  TOTAL_MISMATCH: ({ params = {} }) => `Expected ${params.expected} entries, but found ${params.actual}.`,
+  TOTAL_BELOW_MIN: ({ params = {} }) => `Expected at least ${params.min} entries, but found ${params.actual}.`,
+  TOTAL_ABOVE_MAX: ({ params = {} }) => `Expected at most ${params.max} entries, but found ${params.actual}.`,
+  TYPE_NOT_ALLOWED: ({ index, positionKey, params = {} }) =>
+    `Invalid content type '${params.contentTypeId}' at position ${index} (${positionKey}). Allowed types: ${list(params.allowedTypes)}.`,
+  TYPE_LIMIT_EXCEEDED: ({ params = {} }) =>
+    `Too many entries of type '${params.contentTypeId}'. Expected maximum ${params.limit}, but found ${params.count}.`,
+  TYPE_BELOW_MIN: ({ params = {} }) =>
+    `Too few entries of type '${params.contentTypeId}'. Expected minimum ${params.limit}, but found ${params.count}.`,
+  MISSING_POSITION: ({ index, positionKey }) => `Missing entry at position ${index} (${positionKey}).`,
+  UNKNOWN_CONTENT_TYPE: ({ index, positionKey }) =>
+    `Could not determine content type for entry at position ${index} (${positionKey}).`,
+  ENTRY_NOT_FOUND: ({ entryId, index, positionKey }) =>
+    `Linked entry '${entryId}' at ${at(index, positionKey)} is missing or inaccessible. It may have been deleted.`,
+  ENTRY_DRAFT: ({ entryId, index, positionKey }) =>
+    `Linked entry '${entryId}' at ${at(index, positionKey)} has never been published and will not appear on the live site.`,
+  ENTRY_CHANGED: ({ entryId, index, positionKey }) =>
+    `Linked entry '${entryId}' at ${at(index, positionKey)} has unpublished changes. The live site shows an older version.`,
+  ENTRY_ARCHIVED: ({ entryId, index, positionKey }) =>
+    `Linked entry '${entryId}' at ${at(index, positionKey)} is archived and will not appear on the live site.`,
+  FIELD_REQUIRED: ({ index, positionKey, params = {} }) =>
+    `Field '${params.fieldId}' of the card at ${at(index, positionKey)} is required.`,
+  FIELD_FORBIDDEN: ({ index, positionKey, params = {} }) =>
+    `Field '${params.fieldId}' of the card at ${at(index, positionKey)} must be empty.`,
+  FIELD_TOO_LONG: ({ index, positionKey, params = {} }) =>
+    `Field '${params.fieldId}' of the card at ${at(index, positionKey)} has ${params.length} characters, but at most ${params.maxLength} are allowed.`,
+  FIELD_PATTERN_MISMATCH: ({ index, positionKey, params = {} }) =>
+    `Field '${params.fieldId}' of the card at ${at(index, positionKey)} does not match the pattern ${params.regex}.`,
+  FIELD_VALUE_NOT_ALLOWED: ({ index, positionKey, params = {} }) =>
+    `Field '${params.fieldId}' of the card at ${at(index, positionKey)} has the value '${params.value}'. Allowed values: ${list(params.allowedValues)}.`,
+  ASSET_NOT_FOUND: ({ index, positionKey, params = {} }) =>
+    params.assetId
+      ? `Field '${params.fieldId}' of the card at ${at(index, positionKey)} links asset '${params.assetId}', which is missing or inaccessible.`
+      : `Field '${params.fieldId}' of the card at ${at(index, positionKey)} does not link an asset.`,
+  ASSET_NOT_IMAGE: ({ index, positionKey, params = {} }) =>
+    `Field '${params.fieldId}' of the card at ${at(index, positionKey)} links asset '${params.assetId}', which is not an image.`,
+  ASSET_DIMENSIONS: ({ index, positionKey, params = {} }) =>
+    `Image in field '${params.fieldId}' of the card at ${at(index, positionKey)} is ${params.width}x${params.height} px, but must be ${dimensionBounds[String(params.bound)]} ${params.limit} px ${String(params.bound).endsWith('Width') ? 'wide' : 'high'}.`,
+  ASSET_ASPECT_RATIO: ({ index, positionKey, params = {} }) =>
+    `Image in field '${params.fieldId}' of the card at ${at(index, positionKey)} has an aspect ratio of ${params.actual}, but must be ${params.aspectRatio}.`,
+  NESTING_CYCLE: ({ entryId, index, positionKey }) =>
+    `Linked entry '${entryId}' at ${at(index, positionKey)} contains one of the containers it is nested in.`,
+  NESTING_TOO_DEEP: ({ index, positionKey, params = {} }) =>
+    `The container at ${at(index, positionKey)} is nested deeper than ${params.maxDepth} levels and was not validated.`,
+  UNSUPPORTED_FIELD: () => 'This validator is intended for multiple entry reference fields.',
+  LAYOUT_NOT_CONFIGURED: () =>
+    'No bento layout configuration found for this field. Configure one in the app settings.',
+  LAYOUT_FIELD_MISSING: ({ params = {} }) => `Layout field '${params.layoutField}' does not exist on this content type.`,
+  UNKNOWN_LAYOUT: ({ params = {} }) =>
+    `Unknown layout '${params.layoutType}' in field '${params.layoutField}'. Expected one of: ${list(params.layoutTypes)}.`,
+  INVALID_CONFIG: ({ params = {} }) => `Invalid layout configuration '${params.layoutType}' at ${params.path}: ${params.issue}`,
+  FETCH_FAILED: () => 'Error fetching linked entry details for validation.',
+};
+
+// Renders the message for an error from its code, optionally with another message catalogue.
+// Errors of nested containers are prefixed with their path.
+export const renderValidationMessage = (
+  error: Omit<ValidationError, 'message'>,
+  messages: { [code in ValidationErrorCode]: MessageTemplate } = validationMessages
+): string => {
+  const message = messages[error.code](error);
+  return error.path ? `${error.path}: ${message}` : message;
+};
+
+// Creates a ValidationError with its message rendered from the code. Severity defaults to 'error'.
+export const createValidationError = (
+  code: ValidationErrorCode,
+  { severity = 'error', ...details }: ValidationErrorDetails = {}
+): ValidationError => {
+  const error = { code, severity, ...details };
+  return { ...error, message: renderValidationMessage(error) };
+};
@@ -1,2 +1,3 @@
 export { mockCma } from './mockCma';
-export { mockSdk } from './mockSdk';
+export { mockSdk, createMockSdk } from './mockSdk';
+export { assetLink, cards, createConfig, createMockEntry, link } from './mockEntries';
@@ -0,0 +1,37 @@
+import { EntryProps } from 'contentful-management/dist/typings/entities/entry';
+import { AssetLink, EntryLink, ValidationConfig } from '../../src/types';
+
+// An entry as the CMA returns it, with the fields and sys properties a test needs
+const createMockEntry = (
+  id: string,
+  contentTypeId: string,
+  fields: { [fieldId: string]: any } = {},
+  sys: Partial<EntryProps['sys']> = {}
+): EntryProps =>
+  ({
+    sys: { id, type: 'Entry', version: 1, contentType: { sys: { type: 'Link', linkType: 'ContentType', id: contentTypeId } }, ...sys },
+    fields,
+  } as unknown as EntryProps);
+
+// A link to an entry, as held by a reference field
+const link = (id: string): EntryLink => ({ sys: { type: 'Link', linkType: 'Entry', id } });
+
+// A link to an asset, as held by a media field
+const assetLink = (id: string): AssetLink => ({ sys: { type: 'Link', linkType: 'Asset', id } });
+
+// The value of a reference field linking the given entries in en-US
+const cards = (...ids: string[]) => ({ 'en-US': ids.map(link) });
+
+// A layout of the given positions, any number of cards allowed unless the limits say otherwise
+const createConfig = (
+  positions: ValidationConfig['positions'],
+  limits: ValidationConfig['limits'] = { totalEntries: { min: 0 } }
+): ValidationConfig => ({
+  layoutType: 'test-layout',
+  targetContentType: 'TestContainer',
+  validateField: ['testField'],
+  positions,
+  limits,
+});
+
+export { assetLink, cards, createConfig, createMockEntry, link };
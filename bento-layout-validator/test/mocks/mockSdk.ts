@@ -1,11 +1,26 @@
-import { vi } from 'vitest';
-import { FieldAppSDK } from '@contentful/app-sdk';
+import { Mock, vi } from 'vitest';
+import { ConfigAppSDK, FieldAppSDK } from '@contentful/app-sdk';
+
+// The SDK of a field, with the app API of the ConfigScreen and the mock functions tests control directly
+export type MockSdk = FieldAppSDK & Pick<ConfigAppSDK, 'app'> & {
+  _mockFieldGetValue: Mock;
+  _mockOnValueChanged: Mock;
+  _mockSpaceGetEntry: Mock;
+  _mockSpaceGetEntries: Mock;
+  _mockSpaceGetAssets: Mock;
+};
 
 // Helper to create a more complete mock SDK specific to FieldAppSDK
 // We can customize the return values of the vi.fn() mocks in our tests.
-const createMockSdk = (): FieldAppSDK => {
+const createMockSdk = (): MockSdk => {
   const mockFieldValue = vi.fn();
   const mockOnValueChangedCallback = vi.fn();
+  const mockSpaceGetEntry = vi.fn().mockImplementation((id: string) => Promise.resolve({
+    sys: { id, type: 'Entry', contentType: { sys: { id: 'unknown' } } }, // Default mock entry
+    fields: {},
+  }));
+  const mockSpaceGetEntries = vi.fn().mockResolvedValue({ items: [], total: 0, skip: 0, limit: 0 });
+  const mockSpaceGetAssets = vi.fn().mockResolvedValue({ items: [], total: 0, skip: 0, limit: 0 });
 
   return {
     // App event methods
@@ -16,8 +31,6 @@ const createMockSdk = (): FieldAppSDK => {
       getCurrentState: vi.fn().mockReturnValue(null), // Or some default state
       isInstalled: vi.fn().mockResolvedValue(true), // Typically async
       onConfigurationCompleted: vi.fn(),
-      setConfiguration: vi.fn(),
-      patchInstallation: vi.fn()
     },
     // IDs
     ids: {
@@ -32,6 +45,7 @@ const createMockSdk = (): FieldAppSDK => {
     // Field API
     field: {
       id: 'test-field-id',
+      name: 'Test field',
       locale: 'en-US',
       type: 'Array', // Default to a valid type for our component
       required: false,
@@ -51,6 +65,8 @@ const createMockSdk = (): FieldAppSDK => {
       },
       onIsDisabledChanged: vi.fn(() => () => {}),
       onSchemaErrorsChanged: vi.fn(() => () => {}),
+      getIsDisabled: vi.fn().mockReturnValue(false),
+      getSchemaErrors: vi.fn().mockReturnValue([]),
       setInvalid: vi.fn(),
     },
     // Entry API
@@ -70,13 +86,34 @@ const createMockSdk = (): FieldAppSDK => {
       onIsDisabledChanged: vi.fn(() => () => {}),
       onSchemaErrorsChanged: vi.fn(() => () => {}),
     } as any, // Cast to any to avoid exhaustive mocking
+    // Editor API
+    editor: {
+      editorInterface: {} as any, // Cast for brevity
+      getLocaleSettings: vi.fn().mockReturnValue({ mode: 'single', focused: 'en-US' }),
+      onLocaleSettingsChanged: vi.fn(() => () => {}),
+      onShowDisabledFieldsChanged: vi.fn(() => () => {}),
+      getShowHiddenFields: vi.fn().mockReturnValue(false),
+      onShowHiddenFieldsChanged: vi.fn(() => () => {}),
+    },
+    // Content type API
+    contentType: {
+      sys: {
+        id: 'test-contentType-id',
+        type: 'ContentType',
+        revision: 1,
+        space: { sys: { type: 'Link', linkType: 'Space', id: 'test-space-id' } },
+        environment: { sys: { type: 'Link', linkType: 'Environment', id: 'test-environment-id' } },
+      },
+      name: 'Test Content Type',
+      displayField: 'title',
+      description: '',
+      fields: [],
+    },
     // Space API
     space: {
-      getEntry: vi.fn().mockImplementation((id: string) => Promise.resolve({
-        sys: { id, type: 'Entry', contentType: { sys: { id: 'unknown' } } }, // Default mock entry
-        fields: {},
-      })),
-      getEntries: vi.fn().mockResolvedValue({ items: [], total: 0, skip: 0, limit: 0 }),
+      getEntry: mockSpaceGetEntry,
+      getEntries: mockSpaceGetEntries,
+      getAssets: mockSpaceGetAssets,
       // ... other space methods if needed
     } as any, // Cast to any for brevity
     // Dialogs API
@@ -86,7 +123,19 @@ const createMockSdk = (): FieldAppSDK => {
       // ... other dialog methods
     } as any, // Cast for brevity
     // Navigator API
-    navigator: {} as any, // Mock as needed
+    navigator: {
+      openEntry: vi.fn().mockResolvedValue({}),
+      openNewEntry: vi.fn().mockResolvedValue({}),
+      openAsset: vi.fn().mockResolvedValue({}),
+      openNewAsset: vi.fn().mockResolvedValue({}),
+      openPageExtension: vi.fn().mockResolvedValue({}),
+      openCurrentAppPage: vi.fn().mockResolvedValue({}),
+      openBulkEditor: vi.fn().mockResolvedValue({}),
+      openAppConfig: vi.fn().mockResolvedValue(undefined),
+      openEntriesList: vi.fn().mockResolvedValue(undefined),
+      openAssetsList: vi.fn().mockResolvedValue(undefined),
+      onSlideInNavigation: vi.fn(() => () => {}),
+    },
     // Notifier API
     notifier: {
       success: vi.fn(),
@@ -108,7 +157,7 @@ const createMockSdk = (): FieldAppSDK => {
     parameters: {
       instance: {},
       installation: {},
-    },
+    } as any, // Cast to any, tests provide installation parameters as needed
     // Window API
     window: {
       startAutoResizer: vi.fn(),
@@ -117,6 +166,16 @@ const createMockSdk = (): FieldAppSDK => {
     },
     // CMA is available via useCMA, but if sdk.cma were used:
     cma: {} as any, // Mock CMA if used directly via sdk.cma
+    cmaAdapter: { makeRequest: vi.fn() },
+    // Hostnames API
+    hostnames: {
+      delivery: 'cdn.contentful.com',
+      management: 'api.contentful.com',
+      preview: 'preview.contentful.com',
+      upload: 'upload.contentful.com',
+      graphql: 'graphql.contentful.com',
+      webapp: 'app.contentful.com',
+    },
     // Access API
     access: {
       can: vi.fn().mockResolvedValue(true), // Typically async
@@ -138,15 +197,15 @@ const createMockSdk = (): FieldAppSDK => {
     // Store the mock functions directly for easier access in tests
     _mockFieldGetValue: mockFieldValue,
     _mockOnValueChanged: mockOnValueChangedCallback,
-    _mockSpaceGetEntry: vi.fn(), // This will be reassigned to space.getEntry for easier spy/mockReturnValue
+    _mockSpaceGetEntry: mockSpaceGetEntry, // Same instance as space.getEntry for easier spy/mockReturnValue
+    _mockSpaceGetEntries: mockSpaceGetEntries, // Same instance as space.getEntries
+    _mockSpaceGetAssets: mockSpaceGetAssets, // Same instance as space.getAssets
   };
 };
 
 // Create a default mock SDK instance to be used in tests
 // Tests can then further customize this instance if needed.
 const mockSdk = createMockSdk();
-// Ensure space.getEntry is the same vi.fn instance as _mockSpaceGetEntry for easier test control
-mockSdk.space.getEntry = mockSdk._mockSpaceGetEntry!;
 
 
 export { mockSdk, createMockSdk }; // Export createMockSdk if tests need to create fresh instances